@@ -1,5 +1,4 @@
-import type { ChangeEvent } from 'react';
-import { Component, createComponent } from '../src';
+import { Component, createComponent, withForm } from '../src';
 import Counter from './Counter';
 import { withWindowSize } from './withWindowSize';
 
@@ -24,7 +23,10 @@ interface TodoProps {
 
 class Todo extends Component<TodoProps> {
   todos: TodoItem[] = [];
-  input = '';
+  form = withForm({
+    fields: { text: { initial: '', validate: v => !v.trim() && 'Required' } },
+    onSubmit: ({ text }) => this.add(text),
+  });
   inputRef = this.ref<HTMLInputElement>();
   // Factory function (no `new`) — Component auto-detects behaviors
   windowSize = withWindowSize(768);
@@ -47,14 +49,9 @@ class Todo extends Component<TodoProps> {
     this.inputRef.current?.focus();
   }
 
-  add() {
-    if (!this.input.trim()) return;
-    this.todos.push({ id: Date.now(), text: this.input, done: false });
-    this.input = '';
-  }
-
-  setInput(e: ChangeEvent<HTMLInputElement>) {
-    this.input = e.target.value;
+  add(text: string) {
+    this.todos.push({ id: Date.now(), text, done: false });
+    this.form.reset();
   }
 
   toggle(id: number) {
@@ -69,11 +66,10 @@ class Todo extends Component<TodoProps> {
           <h2>{this.props.title}</h2>
           <span className="hmr-version">{HRM_VERSION}</span>
         </div>
-        <form onSubmit={e => { e.preventDefault(); this.add(); }}>
+        <form onSubmit={this.form.submit}>
           <input
             ref={this.inputRef}
-            value={this.input}
-            onChange={this.setInput}
+            {...this.form.field('text')}
             placeholder="Add a todo..."
           />
           <button type="submit">Add</button>
@@ -0,0 +1,160 @@
+// @vitest-environment jsdom
+import { act, type ReactElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, describe, expect, it } from 'vitest';
+import { Behavior, Component, createBehavior, defineView } from '../index';
+import { createTestComponent } from '../testing';
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const roots: Root[] = [];
+
+afterEach(() => {
+  for (const root of roots.splice(0)) act(() => root.unmount());
+});
+
+function render(element: ReactElement): Root {
+  const root = createRoot(document.createElement('div'));
+  roots.push(root);
+  act(() => root.render(element));
+  return root;
+}
+
+describe('nested behaviors', () => {
+  it('attaches a behavior nested in a class behavior once inside a defineView setup', () => {
+    const log: string[] = [];
+
+    const withDrag = createBehavior(class Drag extends Behavior {
+      onMount() {
+        log.push('drag');
+        return () => log.push('drag:cleanup');
+      }
+    });
+
+    const withSortable = createBehavior(class Sortable extends Behavior {
+      drag = withDrag();
+      onMount() {
+        log.push('sortable');
+        return () => log.push('sortable:cleanup');
+      }
+    });
+
+    const List = defineView(() => {
+      withSortable();
+      return () => null;
+    });
+
+    const root = render(<List />);
+    expect(log).toEqual(['drag', 'sortable']);
+
+    act(() => root.unmount());
+    expect(log.filter(entry => entry.endsWith(':cleanup')).sort()).toEqual(['drag:cleanup', 'sortable:cleanup']);
+  });
+});
+
+describe('use and release', () => {
+  const log: string[] = [];
+
+  class Tracker extends Behavior {
+    constructor(public name: string) {
+      super();
+    }
+    onMount() {
+      log.push(`${this.name}:mount`);
+      return () => log.push(`${this.name}:cleanup`);
+    }
+    onUnmount() {
+      log.push(`${this.name}:unmount`);
+    }
+  }
+  const withTracker = createBehavior(Tracker);
+
+  afterEach(() => {
+    log.length = 0;
+  });
+
+  it('mounts a behavior attached to a mounted component right away, and unmounts it on release', () => {
+    class Canvas extends Component {
+      drag: Tracker | null = null;
+      startDrag() {
+        this.drag = withTracker('drag');
+      }
+    }
+
+    const t = createTestComponent(Canvas);
+    t.mount();
+    const held = withTracker('held');
+    t.vm.use(held);
+    // Attaching twice is a no-op
+    t.vm.use(held);
+    expect(log).toEqual(['held:mount']);
+
+    t.vm.release(held);
+    expect(log).toEqual(['held:mount', 'held:cleanup', 'held:unmount']);
+
+    log.length = 0;
+    t.vm.startDrag();
+    expect(log).toEqual(['drag:mount']);
+    t.unmount();
+    expect(log).toEqual(['drag:mount', 'drag:cleanup', 'drag:unmount']);
+  });
+
+  it('mounts a behavior attached before mount together with the component', () => {
+    const t = createTestComponent(Component);
+    t.vm.use(withTracker('early'));
+    expect(log).toEqual([]);
+
+    t.mount();
+    expect(log).toEqual(['early:mount']);
+    t.unmount();
+  });
+
+  it('attaches and releases behaviors added to or removed from array fields', () => {
+    class Board extends Component {
+      trackers = [withTracker('a')];
+      add(name: string) {
+        this.trackers.push(withTracker(name));
+      }
+      removeFirst() {
+        this.trackers.shift();
+      }
+    }
+
+    const t = createTestComponent(Board);
+    t.mount();
+    t.vm.add('b');
+    expect(log).toEqual(['a:mount', 'b:mount']);
+
+    t.vm.removeFirst();
+    expect(log.slice(2)).toEqual(['a:cleanup', 'a:unmount']);
+    t.unmount();
+    expect(log.slice(4)).toEqual(['b:cleanup', 'b:unmount']);
+  });
+
+  it('attaches and releases behaviors set in or deleted from Map fields', () => {
+    class Board extends Component {
+      trackers = new Map<string, Tracker>();
+      add(name: string) {
+        this.trackers.set(name, withTracker(name));
+      }
+      remove(name: string) {
+        this.trackers.delete(name);
+      }
+      clear() {
+        this.trackers = new Map();
+      }
+    }
+
+    const t = createTestComponent(Board);
+    t.mount();
+    t.vm.add('a');
+    t.vm.add('b');
+    t.vm.remove('a');
+    expect(log).toEqual(['a:mount', 'b:mount', 'a:cleanup', 'a:unmount']);
+
+    // Replacing the Map releases what it held
+    t.vm.clear();
+    expect(log.slice(4)).toEqual(['b:cleanup', 'b:unmount']);
+    t.unmount();
+  });
+});
@@ -0,0 +1,129 @@
+// @vitest-environment jsdom
+import { act, type ErrorInfo, type ReactElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Component, configure, createComponent } from '../index';
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const roots: Root[] = [];
+const onError = vi.fn();
+
+beforeEach(() => {
+  configure({ onError });
+  // React logs every error a boundary catches
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  for (const root of roots.splice(0)) act(() => root.unmount());
+  configure({ onError: undefined });
+  onError.mockReset();
+  vi.restoreAllMocks();
+});
+
+function render(element: ReactElement): HTMLElement {
+  const container = document.createElement('div');
+  const root = createRoot(container);
+  roots.push(root);
+  act(() => root.render(element));
+  return container;
+}
+
+let broken = true;
+
+class Widget extends Component {
+  render() {
+    if (broken) throw new Error('widget failed');
+    return <p>widget</p>;
+  }
+}
+const WidgetView = createComponent(Widget);
+
+describe('onCatch', () => {
+  beforeEach(() => {
+    broken = true;
+  });
+
+  it('renders a fallback from the caught error, and the children again after a reset', () => {
+    let dashboard!: Dashboard;
+    const stacks: string[] = [];
+
+    class Dashboard extends Component {
+      error: Error | null = null;
+      onCreate() {
+        dashboard = this;
+      }
+      onCatch(error: Error, info: ErrorInfo) {
+        this.error = error;
+        stacks.push(info.componentStack ?? '');
+      }
+      retry() {
+        this.error = null;
+      }
+      render() {
+        if (this.error) return <p>failed: {this.error.message}</p>;
+        return <WidgetView />;
+      }
+    }
+    const DashboardView = createComponent(Dashboard);
+
+    const container = render(<DashboardView />);
+    expect(container.textContent).toBe('failed: widget failed');
+    expect(stacks[0]).toContain(' at ');
+
+    broken = false;
+    act(() => dashboard.retry());
+    expect(container.textContent).toBe('widget');
+  });
+
+  it('reports a render error once, under the component that threw it', () => {
+    class Dashboard extends Component {
+      error: unknown = null;
+      onCatch(error: unknown) {
+        this.error = error;
+      }
+      render() {
+        return this.error ? <p>fallback</p> : <WidgetView />;
+      }
+    }
+    const DashboardView = createComponent(Dashboard);
+
+    render(<DashboardView />);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][1]).toMatchObject({ phase: 'render', name: 'Widget', path: 'Dashboard > Widget' });
+  });
+
+  it('renders nothing for the failed subtree when onCatch leaves the state unchanged', () => {
+    class Quiet extends Component {
+      onCatch() {}
+      render() {
+        return <WidgetView />;
+      }
+    }
+    const QuietView = createComponent(Quiet);
+
+    const container = render(
+      <section>
+        <QuietView />
+        <p>sibling</p>
+      </section>
+    );
+    expect(container.textContent).toBe('sibling');
+  });
+
+  it("reports errors thrown by onCatch with phase 'onCatch'", () => {
+    class Fragile extends Component {
+      onCatch() {
+        throw new Error('onCatch failed');
+      }
+      render() {
+        return <WidgetView />;
+      }
+    }
+    const FragileView = createComponent(Fragile);
+
+    render(<FragileView />);
+    expect(onError.mock.calls.map(([, context]) => context.phase)).toEqual(['render', 'onCatch']);
+  });
+});
@@ -0,0 +1,254 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Behavior, Component, configure, createBehavior, type MantleErrorContext, type MantleTraceEvent, type Task } from '../index';
+import { createTestComponent } from '../testing';
+
+afterEach(() => {
+  configure({ onError: undefined, errorPolicy: undefined, onTrace: undefined });
+  vi.restoreAllMocks();
+});
+
+describe("errorPolicy 'report'", () => {
+  it('passes watch errors to onError with their context', () => {
+    const onError = vi.fn<(error: unknown, context: MantleErrorContext) => void>();
+    configure({ onError });
+
+    class Counter extends Component {
+      count = 0;
+      onCreate() {
+        this.watch(() => this.count, () => {
+          throw new Error('watch failed');
+        });
+      }
+      increment() {
+        this.count++;
+      }
+    }
+
+    const t = createTestComponent(Counter);
+    t.mount();
+    t.vm.increment();
+    expect(onError).toHaveBeenCalledTimes(1);
+    const [error, context] = onError.mock.calls[0];
+    expect((error as Error).message).toBe('watch failed');
+    expect(context).toMatchObject({ phase: 'watch', name: 'Counter', isBehavior: false, path: 'Counter' });
+    t.unmount();
+  });
+});
+
+describe("errorPolicy 'rethrow'", () => {
+  it('throws lifecycle errors from the lifecycle call', () => {
+    class Broken extends Component {
+      onUpdate() {
+        throw new Error('update failed');
+      }
+    }
+
+    const t = createTestComponent(Broken, {}, { errorPolicy: 'rethrow' });
+    t.mount();
+    expect(() => t.update()).toThrow('update failed');
+    t.unmount();
+  });
+
+  it('throws watch and effect errors from the next lifecycle call', () => {
+    class Watched extends Component<{ step: number }> {
+      onCreate() {
+        this.watch(() => this.props.step, (step) => {
+          if (step === 2) throw new Error('watch failed');
+        });
+        this.effect(() => {
+          if (this.props.step === 3) throw new Error('effect failed');
+        });
+      }
+    }
+
+    const t = createTestComponent(Watched, { step: 1 }, { errorPolicy: 'rethrow' });
+    t.mount();
+    expect(() => t.setProps({ step: 2 })).toThrow('watch failed');
+    expect(() => t.setProps({ step: 3 })).toThrow('effect failed');
+    expect(() => t.update()).not.toThrow();
+    t.unmount();
+  });
+
+  it("keeps task promises from rejecting and throws the task's error from the next lifecycle call", async () => {
+    class Saver extends Component {
+      saving: Task<void> | null = null;
+      save() {
+        this.saving = this.task(async () => {
+          throw new Error('save failed');
+        });
+      }
+    }
+
+    const t = createTestComponent(Saver, {}, { errorPolicy: 'rethrow' });
+    t.mount();
+    t.vm.save();
+    await expect(t.vm.saving!.promise).resolves.toBeUndefined();
+    expect((t.vm.saving!.error as Error).message).toBe('save failed');
+    expect(() => t.update()).toThrow('save failed');
+    t.unmount();
+  });
+
+  it('throws async onMount rejections from the next lifecycle call', async () => {
+    let loading!: Promise<void>;
+    class Loader extends Component {
+      onMount() {
+        loading = Promise.reject(new Error('load failed'));
+        return loading;
+      }
+    }
+
+    const t = createTestComponent(Loader, {}, { errorPolicy: 'rethrow' });
+    t.mount();
+    await loading.catch(() => {});
+    expect(() => t.unmount()).toThrow('load failed');
+    expect(t.mounted).toBe(false);
+  });
+});
+
+describe("errorPolicy 'unmount-behavior'", () => {
+  it('detaches a failing behavior and keeps its siblings running', async () => {
+    const onError = vi.fn();
+    configure({ onError });
+    const seen: string[] = [];
+
+    class Flaky extends Behavior {
+      value = 0;
+      onMount() {
+        this.watch(() => this.value, () => {
+          throw new Error('flaky');
+        });
+      }
+      bump() {
+        this.value++;
+      }
+    }
+    class Steady extends Behavior {
+      value = 0;
+      onMount() {
+        this.watch(() => this.value, (value) => seen.push(`steady:${value}`));
+      }
+      bump() {
+        this.value++;
+      }
+    }
+    const withFlaky = createBehavior(Flaky);
+    const withSteady = createBehavior(Steady);
+
+    class Dashboard extends Component {
+      flaky = withFlaky();
+      steady = withSteady();
+    }
+
+    const t = createTestComponent(Dashboard, {}, { errorPolicy: 'unmount-behavior' });
+    t.mount();
+    t.vm.flaky.bump();
+    t.vm.steady.bump();
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    // Detached after the current pass
+    await Promise.resolve();
+    t.vm.flaky.bump();
+    t.vm.steady.bump();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(seen).toEqual(['steady:1', 'steady:2']);
+    t.unmount();
+  });
+});
+
+describe('onTrace', () => {
+  it('times lifecycle methods and watch/effect runs of components and behaviors', () => {
+    const events: MantleTraceEvent[] = [];
+    configure({ onTrace: event => events.push(event) });
+
+    class Hover extends Behavior {
+      active = false;
+      onMount() {
+        this.watch(() => this.active, () => {});
+      }
+      toggle() {
+        this.active = !this.active;
+      }
+    }
+    const withHover = createBehavior(Hover);
+
+    class Card extends Component {
+      count = 0;
+      hover = withHover();
+      onCreate() {
+        this.effect(() => {
+          void this.count;
+        });
+      }
+      onMount() {}
+      onUpdate() {}
+      onUnmount() {}
+      increment() {
+        this.count++;
+      }
+    }
+
+    const t = createTestComponent(Card);
+    t.mount();
+    t.vm.increment();
+    t.vm.hover.toggle();
+    t.update();
+    t.unmount();
+
+    expect(events.map(({ phase, name, isBehavior }) => `${phase} ${name}${isBehavior ? ' (behavior)' : ''}`)).toEqual([
+      // Events are sent as runs finish: the effect's first run is inside onCreate
+      'effect Card',
+      'onCreate Card',
+      'onMount Hover (behavior)',
+      'onMount Card',
+      'effect Card',
+      'watch Hover (behavior)',
+      'onUpdate Card',
+      'onUnmount Card',
+    ]);
+    for (const event of events) {
+      expect(event.startTime).toEqual(expect.any(Number));
+      expect(event.duration).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('traces a run that throws, and still reports its error', () => {
+    const events: MantleTraceEvent[] = [];
+    const onError = vi.fn();
+    configure({ onTrace: event => events.push(event), onError });
+
+    class Broken extends Component {
+      onMount() {
+        throw new Error('onMount failed');
+      }
+    }
+
+    const t = createTestComponent(Broken);
+    t.mount();
+    expect(events.map(event => event.phase)).toEqual(['onMount']);
+    expect(onError).toHaveBeenCalledTimes(1);
+    t.unmount();
+  });
+
+  it('logs errors thrown by onTrace without affecting the traced run', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failure = new Error('onTrace failed');
+    configure({
+      onTrace: () => {
+        throw failure;
+      },
+    });
+    let mounted = false;
+
+    class Card extends Component {
+      onMount() {
+        mounted = true;
+      }
+    }
+
+    const t = createTestComponent(Card);
+    t.mount();
+    expect(mounted).toBe(true);
+    expect(error).toHaveBeenCalledWith('[mobx-mantle] Error in onTrace:', failure);
+    t.unmount();
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Behavior, Component, configure, createBehavior, getInstances, inspect, subscribeInstances, type InstanceEvent } from '../index';
+import { createTestComponent } from '../testing';
+
+class Selection extends Behavior {
+  selected: string[] = [];
+}
+const withSelection = createBehavior(Selection);
+
+class Board extends Component<{ title: string }> {
+  columns = ['todo', 'done'];
+  selection = withSelection();
+  onCreate() {
+    this.watch(() => this.columns.length, () => {});
+  }
+}
+
+class Card extends Component {}
+
+beforeEach(() => {
+  configure({ devtools: true });
+});
+
+afterEach(() => {
+  configure({ devtools: false });
+  vi.restoreAllMocks();
+});
+
+describe('devtools', () => {
+  it('lists live instances with their parent, state, behaviors and watchers', () => {
+    const board = createTestComponent(Board, { title: 'Sprint' });
+    const card = createTestComponent(Card, {}, { parent: board.vm });
+    board.mount();
+    card.mount();
+
+    const info = inspect(board.vm)!;
+    const selection = inspect(board.vm.selection)!;
+    expect(info).toMatchObject({
+      name: 'Board',
+      kind: 'component',
+      parent: null,
+      props: { title: 'Sprint' },
+      state: { columns: ['todo', 'done'] },
+      behaviors: [selection.id],
+      mounted: true,
+      instance: board.vm,
+    });
+    expect(selection).toMatchObject({ name: 'Selection', kind: 'behavior', parent: info.id, state: { selected: [] } });
+    expect(inspect(card.vm)!.parent).toBe(info.id);
+    // Board's watch on top of what every Component runs
+    expect(info.watchers).toBe(inspect(card.vm)!.watchers + 1);
+    expect(inspect(info.id)!.instance).toBe(board.vm);
+    // A behavior is tracked once attached, which its host does while it initializes
+    expect(getInstances().map(instance => instance.name)).toEqual(['Selection', 'Board', 'Card']);
+
+    card.unmount();
+    board.unmount();
+    expect(inspect(board.vm)).toBeUndefined();
+    expect(getInstances()).toEqual([]);
+  });
+
+  it('sends create, mount, update and unmount events until unsubscribed', () => {
+    const events: InstanceEvent[] = [];
+    const unsubscribe = subscribeInstances(event => events.push(event));
+
+    const card = createTestComponent(Card);
+    card.mount();
+    card.update();
+    card.unmount();
+    expect(events.map(({ type, name, kind }) => `${type} ${name} ${kind}`)).toEqual([
+      'create Card component',
+      'mount Card component',
+      'update Card component',
+      'unmount Card component',
+    ]);
+
+    unsubscribe();
+    createTestComponent(Card).unmount();
+    expect(events).toHaveLength(4);
+  });
+
+  it('drops an instance disposed without mounting', () => {
+    const card = createTestComponent(Card);
+    expect(inspect(card.vm)!.mounted).toBe(false);
+    card.unmount();
+    expect(inspect(card.vm)).toBeUndefined();
+  });
+
+  it("doesn't track instances created while devtools is off", () => {
+    configure({ devtools: false });
+    const card = createTestComponent(Card);
+    card.mount();
+    expect(inspect(card.vm)).toBeUndefined();
+    card.unmount();
+  });
+
+  it('logs listener errors without affecting other listeners', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failure = new Error('listener failed');
+    const events: string[] = [];
+    const unsubscribeFailing = subscribeInstances(() => {
+      throw failure;
+    });
+    const unsubscribe = subscribeInstances(event => events.push(event.type));
+
+    createTestComponent(Card).unmount();
+    expect(events).toEqual(['create', 'unmount']);
+    expect(error).toHaveBeenCalledWith('[mobx-mantle] Error in devtools listener:', failure);
+
+    unsubscribeFailing();
+    unsubscribe();
+  });
+});
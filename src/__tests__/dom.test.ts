@@ -0,0 +1,288 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { Component } from '../index';
+import { For, defineElement, h, mount, type MountedComponent } from '../dom';
+
+let mounted: MountedComponent<any> | undefined;
+
+afterEach(() => {
+  mounted?.unmount();
+  mounted = undefined;
+});
+
+describe('mount', () => {
+  it('sets a <select> value once its options exist', () => {
+    class Picker extends Component {
+      size = 'm';
+      setSize(size: string) {
+        this.size = size;
+      }
+      render() {
+        return h('select', { value: this.size },
+          h('option', { value: 's' }, 'Small'),
+          h('option', { value: 'm' }, 'Medium'),
+          h('option', { value: 'l' }, 'Large'),
+        );
+      }
+    }
+
+    const root = document.createElement('div');
+    mounted = mount(Picker, root);
+    const select = root.querySelector('select')!;
+    expect(select.value).toBe('m');
+
+    mounted.vm.setSize('l');
+    expect(select.value).toBe('l');
+  });
+});
+
+describe('region', () => {
+  it('re-renders only the region when what it reads changes', () => {
+    const renders = { board: 0, cursor: 0 };
+
+    class Board extends Component {
+      title = 'Board';
+      pointer = { x: 0, y: 0 };
+      move(x: number, y: number) {
+        this.pointer = { x, y };
+      }
+      render() {
+        renders.board++;
+        return h('section', null,
+          h('h1', null, this.title),
+          this.region(() => {
+            renders.cursor++;
+            return h('p', null, `${this.pointer.x},${this.pointer.y}`);
+          }),
+        );
+      }
+    }
+
+    const root = document.createElement('div');
+    mounted = mount(Board, root);
+    const heading = root.querySelector('h1');
+
+    mounted.vm.move(3, 4);
+    expect(root.querySelector('p')!.textContent).toBe('3,4');
+    expect(renders).toEqual({ board: 1, cursor: 2 });
+    expect(root.querySelector('h1')).toBe(heading);
+  });
+});
+
+describe('For', () => {
+  interface Todo {
+    id: number;
+    title: string;
+  }
+
+  let renders: number[] = [];
+
+  class Row extends Component<{ todo: Todo; prefix: string }> {
+    render() {
+      return h('li', null, this.props.prefix, this.props.todo.title);
+    }
+  }
+
+  class List extends Component<{ prefix: string }> {
+    todos: Todo[] = [{ id: 1, title: 'a' }, { id: 2, title: 'b' }, { id: 3, title: 'c' }];
+    rotate() {
+      this.todos.unshift(this.todos.pop()!);
+    }
+    insert(todo: Todo) {
+      this.todos.unshift(todo);
+    }
+    render() {
+      return h('ul', null,
+        h(For, { each: () => this.todos, keyBy: (todo: Todo) => todo.id }, (todo: Todo) => {
+          renders.push(todo.id);
+          return h(Row, { todo, prefix: this.props.prefix });
+        }),
+      );
+    }
+  }
+
+  afterEach(() => {
+    renders = [];
+  });
+
+  it('moves keyed rows without recreating their DOM', () => {
+    const root = document.createElement('div');
+    mounted = mount(List, root, { prefix: '' });
+    const items = () => [...root.querySelectorAll('li')];
+    const original = items();
+
+    mounted.vm.rotate();
+    expect(items().map(li => original.indexOf(li))).toEqual([2, 0, 1]);
+    expect(items().map(li => li.textContent)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('renders only the inserted row when an item is added at the head', () => {
+    const root = document.createElement('div');
+    mounted = mount(List, root, { prefix: '' });
+    renders = [];
+
+    mounted.vm.insert({ id: 0, title: 'z' });
+    expect(renders).toEqual([0]);
+    expect([...root.querySelectorAll('li')].map(li => li.textContent)).toEqual(['z', 'a', 'b', 'c']);
+  });
+
+  it('re-renders shifted rows that read their index', () => {
+    class Numbered extends Component {
+      todos: Todo[] = [{ id: 1, title: 'a' }, { id: 2, title: 'b' }];
+      insert(todo: Todo) {
+        this.todos.unshift(todo);
+      }
+      render() {
+        return h('ul', null,
+          h(For, { each: () => this.todos, keyBy: (todo: Todo) => todo.id }, (todo: Todo, index: () => number) => {
+            renders.push(todo.id);
+            return h('li', null, String(index() + 1), todo.title);
+          }),
+        );
+      }
+    }
+
+    const root = document.createElement('div');
+    mounted = mount(Numbered, root);
+    renders = [];
+
+    mounted.vm.insert({ id: 0, title: 'z' });
+    expect(renders.sort()).toEqual([0, 1, 2]);
+    expect([...root.querySelectorAll('li')].map(li => li.textContent)).toEqual(['1z', '2a', '3b']);
+  });
+
+  it("doesn't re-render rows when the surrounding Component re-renders", () => {
+    class Titled extends Component<{ title: string }> {
+      todos: Todo[] = [{ id: 1, title: 'a' }, { id: 2, title: 'b' }];
+      render() {
+        return h('section', null,
+          h('h1', null, this.props.title),
+          h('ul', null,
+            h(For, { each: () => this.todos, keyBy: (todo: Todo) => todo.id }, (todo: Todo) => {
+              renders.push(todo.id);
+              return h('li', null, todo.title);
+            }),
+          ),
+        );
+      }
+    }
+
+    const root = document.createElement('div');
+    mounted = mount(Titled, root, { title: 'one' });
+    renders = [];
+
+    mounted.setProps({ title: 'two' });
+    expect(root.querySelector('h1')!.textContent).toBe('two');
+    expect(renders).toEqual([]);
+  });
+
+  it('re-renders rows that read props inside the render function', () => {
+    const root = document.createElement('div');
+    mounted = mount(List, root, { prefix: '-' });
+    mounted.setProps({ prefix: '+' });
+    expect([...root.querySelectorAll('li')].map(li => li.textContent)).toEqual(['+a', '+b', '+c']);
+  });
+});
+
+describe('defineElement', () => {
+  const log: string[] = [];
+
+  interface Item {
+    label: string;
+  }
+
+  class TodoCard extends Component<{ title?: string; maxItems?: number; compact?: boolean; items?: Item[] }> {
+    onMount() {
+      log.push('mount');
+    }
+    onUnmount() {
+      log.push('unmount');
+    }
+    pick(label: string) {
+      this.emit('pick', label);
+    }
+    render() {
+      const { title = '', maxItems = 0, compact = false, items = [] } = this.props;
+      return h('p', null, `${title}:${maxItems}:${compact}:${items.map(item => item.label).join(',')}`);
+    }
+  }
+
+  defineElement('x-todo-card', TodoCard, {
+    attributes: { title: String, maxItems: Number, compact: Boolean },
+    properties: ['items'],
+  });
+
+  const flush = () => new Promise<void>(resolve => queueMicrotask(resolve));
+
+  afterEach(async () => {
+    document.body.innerHTML = '';
+    // Disconnected elements unmount on a microtask
+    await flush();
+    log.length = 0;
+  });
+
+  it('turns declared attributes and properties into props', () => {
+    const element = document.createElement('x-todo-card') as HTMLElement & { items?: Item[] };
+    element.setAttribute('title', 'Groceries');
+    element.setAttribute('max-items', '10');
+    document.body.appendChild(element);
+    expect(element.textContent).toBe('Groceries:10:false:');
+
+    element.setAttribute('compact', '');
+    element.items = [{ label: 'milk' }];
+    expect(element.textContent).toBe('Groceries:10:true:milk');
+
+    element.removeAttribute('compact');
+    expect(element.textContent).toBe('Groceries:10:false:milk');
+  });
+
+  it('keeps properties set before the element was upgraded', () => {
+    const element = document.createElement('div');
+    element.innerHTML = '<x-todo-card title="Early"></x-todo-card>';
+    const card = element.firstElementChild as HTMLElement & { items?: Item[] };
+    card.items = [{ label: 'eggs' }];
+    document.body.appendChild(element);
+    expect(card.textContent).toBe('Early:0:false:eggs');
+  });
+
+  it('mounts on connect, keeps the instance across a move and unmounts on disconnect', async () => {
+    const element = document.createElement('x-todo-card');
+    const first = document.createElement('div');
+    const second = document.createElement('div');
+    document.body.append(first, second);
+
+    first.appendChild(element);
+    expect(log).toEqual(['mount']);
+
+    second.appendChild(element);
+    await flush();
+    expect(log).toEqual(['mount']);
+
+    element.remove();
+    await flush();
+    expect(log).toEqual(['mount', 'unmount']);
+  });
+
+  it('dispatches emitted events on the element', () => {
+    const element = document.createElement('x-todo-card');
+    document.body.appendChild(element);
+    const picked: unknown[] = [];
+    document.body.addEventListener('pick', event => picked.push((event as CustomEvent).detail));
+
+    let card: TodoCard | undefined;
+    class Probe extends TodoCard {
+      onCreate() {
+        card = this;
+      }
+    }
+    defineElement('x-todo-probe', Probe);
+    document.body.appendChild(document.createElement('x-todo-probe'));
+
+    card!.pick('milk');
+    expect(picked).toEqual(['milk']);
+  });
+
+  it('refuses to define a tag twice', () => {
+    expect(() => defineElement('x-todo-card', TodoCard)).toThrow('[mobx-mantle] defineElement: <x-todo-card> is already defined.');
+  });
+});
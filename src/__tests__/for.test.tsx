@@ -0,0 +1,159 @@
+// @vitest-environment jsdom
+import { act, type ReactElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { observable, runInAction } from 'mobx';
+import { afterEach, describe, expect, it } from 'vitest';
+import { Component, For, createComponent } from '../index';
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const roots: Root[] = [];
+
+afterEach(() => {
+  for (const root of roots.splice(0)) act(() => root.unmount());
+});
+
+function render(element: ReactElement): { container: HTMLElement; root: Root } {
+  const container = document.createElement('div');
+  const root = createRoot(container);
+  roots.push(root);
+  act(() => root.render(element));
+  return { container, root };
+}
+
+interface Todo {
+  id: number;
+  title: string;
+}
+
+describe('For', () => {
+  it('keeps keyed rows, their DOM and their ViewModels across moves', () => {
+    const todos = observable<Todo>([{ id: 1, title: 'a' }, { id: 2, title: 'b' }, { id: 3, title: 'c' }]);
+    const created: number[] = [];
+    let listRenders = 0;
+
+    class Row extends Component<{ todo: Todo }> {
+      onCreate() {
+        created.push(this.props.todo.id);
+      }
+      render() {
+        return <li>{this.props.todo.title}</li>;
+      }
+    }
+    const RowView = createComponent(Row);
+
+    class List extends Component {
+      render() {
+        listRenders++;
+        return (
+          <ul>
+            <For each={() => todos} keyBy={todo => todo.id}>
+              {todo => <RowView todo={todo} />}
+            </For>
+          </ul>
+        );
+      }
+    }
+    const ListView = createComponent(List);
+
+    const { container } = render(<ListView />);
+    const items = () => [...container.querySelectorAll('li')];
+    const original = items();
+
+    act(() => runInAction(() => todos.replace([todos[2], todos[0], todos[1]])));
+    expect(items().map(li => li.textContent)).toEqual(['c', 'a', 'b']);
+    expect(items().map(li => original.indexOf(li))).toEqual([2, 0, 1]);
+
+    act(() => runInAction(() => todos.splice(1, 1)));
+    expect(items().map(li => original.indexOf(li))).toEqual([2, 1]);
+
+    act(() => runInAction(() => (todos[0].title = 'C')));
+    expect(items().map(li => li.textContent)).toEqual(['C', 'b']);
+
+    expect(created).toEqual([1, 2, 3]);
+    expect(listRenders).toBe(1);
+  });
+
+  it('renders only the inserted row when an item is added at the head', () => {
+    const todos = observable<Todo>([{ id: 1, title: 'a' }, { id: 2, title: 'b' }]);
+    const renders: number[] = [];
+    const positions: number[] = [];
+
+    function List() {
+      return (
+        <ul>
+          <For each={() => todos} keyBy={todo => todo.id}>
+            {todo => {
+              renders.push(todo.id);
+              return <li>{todo.title}</li>;
+            }}
+          </For>
+          <For each={() => todos} keyBy={todo => todo.id}>
+            {(todo, index) => {
+              positions.push(todo.id);
+              return <li>{index() + 1}</li>;
+            }}
+          </For>
+        </ul>
+      );
+    }
+
+    const { container } = render(<List />);
+    renders.length = positions.length = 0;
+
+    act(() => runInAction(() => todos.unshift({ id: 0, title: 'z' })));
+    expect(renders).toEqual([0]);
+    // Rows that read their index re-render once they have shifted
+    expect(positions.sort()).toEqual([0, 1, 2]);
+    expect([...container.querySelectorAll('li')].map(li => li.textContent)).toEqual(['z', 'a', 'b', '1', '2', '3']);
+  });
+
+  it("doesn't re-render rows when the surrounding Component re-renders", () => {
+    const todos = [{ id: 1, title: 'a' }, { id: 2, title: 'b' }];
+    const renders: number[] = [];
+
+    function List({ title }: { title: string }) {
+      return (
+        <section>
+          <h1>{title}</h1>
+          <ul>
+            <For each={todos} keyBy={todo => todo.id}>
+              {todo => {
+                renders.push(todo.id);
+                return <li>{todo.title}</li>;
+              }}
+            </For>
+          </ul>
+        </section>
+      );
+    }
+
+    const { container, root } = render(<List title="one" />);
+    renders.length = 0;
+
+    act(() => root.render(<List title="two" />));
+    expect(container.querySelector('h1')!.textContent).toBe('two');
+    expect(renders).toEqual([]);
+  });
+
+  it('re-renders rows that read props inside the render function', () => {
+    const todos = [{ id: 1, title: 'a' }, { id: 2, title: 'b' }];
+
+    class List extends Component<{ prefix: string }> {
+      render() {
+        return (
+          <ul>
+            <For each={todos} keyBy={todo => todo.id}>
+              {todo => <li>{this.props.prefix}{todo.title}</li>}
+            </For>
+          </ul>
+        );
+      }
+    }
+    const ListView = createComponent(List);
+
+    const { container, root } = render(<ListView prefix="-" />);
+    act(() => root.render(<ListView prefix="+" />));
+    expect([...container.querySelectorAll('li')].map(li => li.textContent)).toEqual(['+a', '+b']);
+  });
+});
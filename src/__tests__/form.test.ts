@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Component, withForm } from '../index';
+import { createTestComponent, installFakeTimers, type FakeTimers } from '../testing';
+
+type Fields = {
+  email: string;
+  username: string;
+};
+
+/** A validator call that the test settles by hand */
+interface Check {
+  value: string;
+  signal: AbortSignal;
+  resolve: (message: string | null) => void;
+}
+
+function signupWith(onSubmit?: (values: Fields) => Promise<void>) {
+  const checks: Check[] = [];
+
+  class Signup extends Component {
+    form = withForm<Fields>({
+      fields: {
+        email: { initial: '', validate: v => !v.includes('@') && 'Enter an email' },
+        username: {
+          initial: '',
+          validate: v => v.length < 3 && 'Too short',
+          validateAsync: (value, _values, signal) =>
+            new Promise(resolve => checks.push({ value, signal, resolve })),
+        },
+      },
+      onSubmit,
+    });
+  }
+
+  const t = createTestComponent(Signup);
+  t.mount();
+  return { t, form: t.vm.form, checks };
+}
+
+let clock: FakeTimers;
+
+afterEach(() => clock.restore());
+
+describe('withForm', () => {
+  it('validates synchronously and tracks dirty and touched fields', () => {
+    clock = installFakeTimers();
+    const { t, form } = signupWith();
+
+    expect(form.errors.email).toBe('Enter an email');
+    expect(form.dirty).toBe(false);
+
+    const email = form.field('email');
+    email.onChange({ target: { value: 'ada@example.com' } });
+    email.onBlur();
+    expect(form.values.email).toBe('ada@example.com');
+    expect(form.errors.email).toBeUndefined();
+    expect(form.touched.email).toBe(true);
+    expect(form.dirty).toBe(true);
+    // Bindings keep their handlers across calls
+    expect(form.field('email').onChange).toBe(email.onChange);
+
+    form.reset();
+    expect(form.values.email).toBe('');
+    expect(form.touched.email).toBe(false);
+    t.unmount();
+  });
+
+  it('runs the async validator once the value settles and drops stale checks', async () => {
+    clock = installFakeTimers();
+    const { t, form, checks } = signupWith();
+
+    form.setValue('username', 'ad');
+    // Rejected by the sync validator: no request
+    clock.advance(300);
+    expect(checks).toHaveLength(0);
+
+    form.setValue('username', 'ada');
+    expect(form.isValidating).toBe(true);
+    clock.advance(300);
+    expect(checks.map(check => check.value)).toEqual(['ada']);
+
+    form.setValue('username', 'adam');
+    expect(checks[0].signal.aborted).toBe(true);
+    clock.advance(300);
+    expect(checks.map(check => check.value)).toEqual(['ada', 'adam']);
+
+    checks[1].resolve('Taken');
+    await vi.waitFor(() => expect(form.isValidating).toBe(false));
+    expect(form.errors.username).toBe('Taken');
+
+    // A change clears the async error until the next check
+    form.setValue('username', 'adamo');
+    expect(form.errors.username).toBeUndefined();
+    t.unmount();
+  });
+
+  it('submits a plain copy of the values once async validation passes', async () => {
+    clock = installFakeTimers();
+    const onSubmit = vi.fn(async (_values: Fields) => {});
+    const { t, form, checks } = signupWith(onSubmit);
+
+    form.setValue('email', 'ada@example.com');
+    form.setValue('username', 'ada');
+    const submitted = form.submit({ preventDefault() {} });
+    expect(form.isSubmitting).toBe(true);
+    // submit() checks outstanding fields without waiting for the delay
+    expect(checks.map(check => check.value)).toEqual(['ada']);
+
+    checks[0].resolve(null);
+    await expect(submitted).resolves.toBe(true);
+    expect(onSubmit).toHaveBeenCalledWith({ email: 'ada@example.com', username: 'ada' }, expect.any(AbortSignal));
+    expect(form.isSubmitting).toBe(false);
+    expect(form.submitCount).toBe(1);
+    t.unmount();
+  });
+
+  it("doesn't submit an invalid form, and touches every field", async () => {
+    clock = installFakeTimers();
+    const onSubmit = vi.fn(async () => {});
+    const { t, form } = signupWith(onSubmit);
+
+    await expect(form.submit()).resolves.toBe(false);
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(form.touched).toEqual({ email: true, username: true });
+    t.unmount();
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Component, configure, defineBehavior, onMount } from '../index';
+import { createTestComponent } from '../testing';
+
+afterEach(() => {
+  configure({ onError: undefined, errorPolicy: undefined });
+});
+
+describe('onMount', () => {
+  it('reports a throwing callback and still runs the others and their cleanups', () => {
+    const onError = vi.fn();
+    configure({ onError });
+    const log: string[] = [];
+
+    const withHooks = defineBehavior(function hooks() {
+      onMount(() => {
+        log.push('first');
+        return () => log.push('first:cleanup');
+      });
+      onMount(() => {
+        throw new Error('mount failed');
+      });
+      onMount(() => {
+        log.push('third');
+        return () => log.push('third:cleanup');
+      });
+    });
+
+    class Host extends Component {
+      hooks = withHooks();
+    }
+
+    const t = createTestComponent(Host);
+    t.mount();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][1]).toMatchObject({ phase: 'onMount', name: 'hooks', isBehavior: true });
+
+    t.unmount();
+    expect(log).toEqual(['first', 'third', 'first:cleanup', 'third:cleanup']);
+  });
+
+  it("runs the cleanups collected so far before rethrowing under 'rethrow'", () => {
+    const log: string[] = [];
+
+    const withHooks = defineBehavior(function hooks() {
+      onMount(() => () => log.push('first:cleanup'));
+      onMount(() => {
+        throw new Error('mount failed');
+      });
+      onMount(() => {
+        log.push('third');
+      });
+    });
+
+    class Host extends Component {
+      hooks = withHooks();
+    }
+
+    const t = createTestComponent(Host, {}, { errorPolicy: 'rethrow' });
+    expect(() => t.mount()).toThrow('mount failed');
+    expect(log).toEqual(['first:cleanup']);
+  });
+
+  it('accepts async callbacks, aborting their signal on unmount and reporting rejections', async () => {
+    const onError = vi.fn();
+    configure({ onError });
+    let signal!: AbortSignal;
+    let loading!: Promise<void>;
+
+    const withLoader = defineBehavior(function loader() {
+      onMount(async (s) => {
+        signal = s;
+      });
+      onMount(() => {
+        loading = Promise.reject(new Error('load failed'));
+        return loading;
+      });
+    });
+
+    class Host extends Component {
+      loader = withLoader();
+    }
+
+    const t = createTestComponent(Host);
+    t.mount();
+    await loading.catch(() => {});
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][1]).toMatchObject({ phase: 'onMount', name: 'loader', isBehavior: true });
+
+    expect(signal.aborted).toBe(false);
+    t.unmount();
+    expect(signal.aborted).toBe(true);
+  });
+});
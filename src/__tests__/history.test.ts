@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Component, withHistory } from '../index';
+import { createTestComponent } from '../testing';
+
+interface Shape {
+  id: string;
+  x: number;
+}
+
+class Editor extends Component {
+  shapes: Shape[] = [];
+  selection: string | null = null;
+  tags = new Map<string, string>();
+  history = withHistory(this, { limit: 3, exclude: ['selection'] });
+
+  addShape(shape: Shape) {
+    this.shapes.push(shape);
+    this.selection = shape.id;
+  }
+  move(id: string, x: number) {
+    this.shapes.find(shape => shape.id === id)!.x = x;
+  }
+  tag(key: string, value: string) {
+    this.tags.set(key, value);
+  }
+  load(shapes: Shape[]) {
+    this.history.ignore(() => {
+      this.shapes = shapes;
+    });
+  }
+}
+
+function mountEditor() {
+  const t = createTestComponent(Editor);
+  t.mount();
+  return t;
+}
+
+describe('withHistory', () => {
+  it('undoes and redoes one action as one step', () => {
+    const t = mountEditor();
+    const { vm } = t;
+
+    vm.addShape({ id: 'a', x: 0 });
+    vm.addShape({ id: 'b', x: 0 });
+    expect(vm.history.undoCount).toBe(2);
+
+    vm.history.undo();
+    expect(vm.shapes.map(shape => shape.id)).toEqual(['a']);
+    expect(vm.history.canRedo).toBe(true);
+
+    vm.history.redo();
+    expect(vm.shapes.map(shape => shape.id)).toEqual(['a', 'b']);
+    expect(vm.history.canRedo).toBe(false);
+    t.unmount();
+  });
+
+  it('records nested edits inside arrays, objects and Maps', () => {
+    const t = mountEditor();
+    const { vm } = t;
+
+    vm.addShape({ id: 'a', x: 0 });
+    vm.move('a', 10);
+    vm.tag('a', 'red');
+    expect(vm.history.undoCount).toBe(3);
+
+    vm.history.undo();
+    expect(vm.tags.has('a')).toBe(false);
+    vm.history.undo();
+    expect(vm.shapes[0].x).toBe(0);
+    t.unmount();
+  });
+
+  it('leaves excluded fields and ignore() out of the history', () => {
+    const t = mountEditor();
+    const { vm } = t;
+
+    vm.load([{ id: 'x', x: 1 }]);
+    expect(vm.history.canUndo).toBe(false);
+
+    vm.addShape({ id: 'a', x: 0 });
+    vm.history.undo();
+    expect(vm.shapes.map(shape => shape.id)).toEqual(['x']);
+    // `selection` is excluded: the undo doesn't revert it
+    expect(vm.selection).toBe('a');
+    t.unmount();
+  });
+
+  it('caps the steps at the limit and drops redo steps on a new change', () => {
+    const t = mountEditor();
+    const { vm } = t;
+
+    for (const id of ['a', 'b', 'c', 'd']) vm.addShape({ id, x: 0 });
+    expect(vm.history.undoCount).toBe(3);
+
+    vm.history.undo();
+    expect(vm.history.redoCount).toBe(1);
+    vm.move('a', 5);
+    expect(vm.history.redoCount).toBe(0);
+    t.unmount();
+  });
+
+  it('records only while the host is mounted', () => {
+    const t = createTestComponent(Editor);
+    t.vm.addShape({ id: 'a', x: 0 });
+    expect(t.vm.history.canUndo).toBe(false);
+
+    t.mount();
+    t.vm.addShape({ id: 'b', x: 0 });
+    t.unmount();
+    t.vm.addShape({ id: 'c', x: 0 });
+    expect(t.vm.history.undoCount).toBe(1);
+  });
+});
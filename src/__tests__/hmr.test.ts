@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Component, createLifecycleHost } from '../index';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// The class before an edit…
+class Wizard extends Component {
+  step = 2;
+  answers: string[] = ['yes'];
+  note: string | null = 'draft';
+  legacy = 'old';
+  seenOnCreate = 0;
+  onCreate() {
+    this.seenOnCreate = this.step;
+  }
+  next() {
+    this.step++;
+  }
+}
+
+describe('hot reload', () => {
+  it('treats a host as stale once its class is replaced', () => {
+    const host = createLifecycleHost(Wizard, {});
+    expect(host.isStale(Wizard)).toBe(false);
+    expect(host.isStale(class Reloaded extends Wizard {})).toBe(true);
+  });
+
+  it('carries kept fields into the replacement before onCreate', () => {
+    const previous = createLifecycleHost(Wizard, {});
+    previous.mount();
+    previous.vm.next();
+
+    // …and after it
+    class EditedWizard extends Component {
+      step = 0;
+      answers: string[] = [];
+      note: string | null = null;
+      seenOnCreate = 0;
+      onCreate() {
+        this.seenOnCreate = this.step;
+      }
+    }
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const restore = previous.carryState();
+    previous.unmount();
+    const next = createLifecycleHost(EditedWizard, {}, { restore });
+
+    expect(next.vm.step).toBe(3);
+    expect(next.vm.answers).toEqual(['yes']);
+    expect(next.vm.note).toBe('draft');
+    expect(next.vm.seenOnCreate).toBe(3);
+    expect(warn).toHaveBeenCalledWith('[mobx-mantle] Wizard: Hot reload could not keep state for legacy (removed).');
+  });
+
+  it('drops fields whose value kind changed, and fills fields that became undefined', () => {
+    const previous = createLifecycleHost(Wizard, {});
+
+    class EditedWizard extends Component {
+      step = 'two';
+      answers: string[] = [];
+      note: string | null = null;
+      legacy: string | undefined = undefined;
+    }
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const next = createLifecycleHost(EditedWizard, {}, { restore: previous.carryState() });
+
+    expect(next.vm.step).toBe('two');
+    expect(next.vm.legacy).toBe('old');
+    expect(warn).toHaveBeenCalledWith(
+      '[mobx-mantle] Wizard: Hot reload could not keep state for step (type changed), seenOnCreate (removed).'
+    );
+  });
+
+  it("doesn't warn when every field is kept", () => {
+    const previous = createLifecycleHost(Wizard, {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const next = createLifecycleHost(Wizard, {}, { restore: previous.carryState() });
+    expect(next.vm.step).toBe(2);
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
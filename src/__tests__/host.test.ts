@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { Behavior, Component, createBehavior, createLifecycleHost } from '../index';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createLifecycleHost', () => {
+  it('does nothing on repeated mount() or unmount()', () => {
+    let mounts = 0;
+    let unmounts = 0;
+
+    class Once extends Component {
+      onMount() {
+        mounts++;
+      }
+      onUnmount() {
+        unmounts++;
+      }
+    }
+
+    const host = createLifecycleHost(Once, {});
+    host.mount();
+    host.mount();
+    expect(host.mounted).toBe(true);
+    host.unmount();
+    host.unmount();
+    expect(host.mounted).toBe(false);
+    expect([mounts, unmounts]).toEqual([1, 1]);
+  });
+
+  it('notifies prop observers only when props change', () => {
+    const seen: number[] = [];
+
+    class Item extends Component<{ id: number }> {
+      onCreate() {
+        this.watch(() => this.props.id, id => seen.push(id));
+      }
+    }
+
+    const host = createLifecycleHost(Item, { id: 1 });
+    host.mount();
+    expect(host.setProps({ id: 1 })).toBe(false);
+    expect(host.setProps({ id: 2 })).toBe(true);
+    expect(seen).toEqual([2]);
+    host.unmount();
+  });
+
+  it('restarts watchers, effects and field observation on remount', () => {
+    const log: string[] = [];
+
+    const withLogger = createBehavior(class Logger extends Behavior {
+      onMount() {
+        log.push('behavior:mount');
+      }
+    });
+
+    class Panel extends Component {
+      count = 0;
+      tool: Logger | null = null;
+
+      onCreate() {
+        this.watch(() => this.count, count => log.push(`watch:${count}`));
+        this.effect(() => {
+          log.push(`effect:${this.count}`);
+          return () => log.push('effect:cleanup');
+        });
+      }
+      increment() {
+        this.count++;
+      }
+      pick() {
+        this.tool = withLogger();
+      }
+    }
+    type Logger = InstanceType<typeof withLogger>;
+
+    const host = createLifecycleHost(Panel, {});
+    host.mount();
+    host.unmount();
+    expect(log).toEqual(['effect:0', 'effect:cleanup']);
+
+    log.length = 0;
+    host.mount();
+    host.vm.increment();
+    host.vm.pick();
+    expect(log).toEqual(['effect:0', 'watch:1', 'effect:cleanup', 'effect:1', 'behavior:mount']);
+
+    log.length = 0;
+    host.unmount();
+    host.vm.increment();
+    expect(log).toEqual(['effect:cleanup']);
+  });
+
+  it('fetches again on remount when the unmount aborted a resource load', async () => {
+    let fetches = 0;
+
+    class Profile extends Component<{ id: string }> {
+      user = this.resource(
+        () => this.props.id,
+        async (id) => {
+          fetches++;
+          return { id };
+        }
+      );
+    }
+
+    const host = createLifecycleHost(Profile, { id: 'a' });
+    host.mount();
+    host.unmount();
+    host.mount();
+    await flush();
+
+    expect(fetches).toBe(2);
+    expect(host.vm.user.value).toEqual({ id: 'a' });
+    expect(host.vm.user.loading).toBe(false);
+
+    // Settled loads are not repeated by a later remount
+    host.unmount();
+    host.mount();
+    await flush();
+    expect(fetches).toBe(2);
+
+    host.setProps({ id: 'b' });
+    await flush();
+    expect(host.vm.user.value).toEqual({ id: 'b' });
+    host.unmount();
+  });
+});
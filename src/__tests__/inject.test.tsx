@@ -0,0 +1,122 @@
+// @vitest-environment jsdom
+import { act, type ReactElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, describe, expect, it } from 'vitest';
+import { Behavior, Component, Provide, createBehavior, createComponent, createToken } from '../index';
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const roots: Root[] = [];
+
+afterEach(() => {
+  for (const root of roots.splice(0)) act(() => root.unmount());
+});
+
+function render(element: ReactElement): HTMLElement {
+  const container = document.createElement('div');
+  const root = createRoot(container);
+  roots.push(root);
+  act(() => root.render(element));
+  return container;
+}
+
+const ThemeToken = createToken<string>('Theme');
+const LocaleToken = createToken<string>('Locale', 'en');
+
+describe('Provide', () => {
+  it('nests providers, with the nearest one for a token winning', () => {
+    class Label extends Component {
+      theme = this.inject(ThemeToken);
+      locale = this.inject(LocaleToken);
+      render() {
+        return <span>{this.theme}/{this.locale}</span>;
+      }
+    }
+    const LabelView = createComponent(Label);
+
+    const container = render(
+      <Provide token={ThemeToken} value="light">
+        <LabelView />
+        <Provide token={ThemeToken} value="dark">
+          <Provide token={LocaleToken} value="fr">
+            <LabelView />
+          </Provide>
+        </Provide>
+      </Provide>
+    );
+    expect([...container.querySelectorAll('span')].map(span => span.textContent)).toEqual(['light/en', 'dark/fr']);
+  });
+
+  it('throws for a token without a provider or a default', () => {
+    class Orphan extends Component {
+      theme = this.inject(ThemeToken);
+    }
+
+    expect(() => new Orphan()).toThrow('[mobx-mantle] Orphan: No provider found for Theme.');
+  });
+});
+
+describe('Behavior.inject', () => {
+  it('resolves against the providers above the host Component', () => {
+    class Themed extends Behavior {
+      theme = this.inject(ThemeToken);
+    }
+    const withThemed = createBehavior(Themed);
+
+    class Panel extends Component {
+      themed = withThemed();
+      render() {
+        return <p>{this.themed.theme}</p>;
+      }
+    }
+    const PanelView = createComponent(Panel);
+
+    const container = render(
+      <Provide token={ThemeToken} value="dark">
+        <PanelView />
+      </Provide>
+    );
+    expect(container.textContent).toBe('dark');
+  });
+
+  it('resolves against the host for a behavior created later with use()', () => {
+    const seen: string[] = [];
+
+    class Tooltip extends Behavior {
+      onMount() {
+        seen.push(this.inject(ThemeToken));
+      }
+    }
+    const withTooltip = createBehavior(Tooltip);
+
+    class Popover extends Behavior {
+      tooltip = withTooltip();
+      onMount() {
+        seen.push(this.inject(ThemeToken));
+      }
+    }
+    const withPopover = createBehavior(Popover);
+
+    let panel!: Panel;
+    class Panel extends Component {
+      onCreate() {
+        panel = this;
+      }
+      open() {
+        this.use(withPopover());
+      }
+      render() {
+        return <p />;
+      }
+    }
+    const PanelView = createComponent(Panel);
+
+    render(
+      <Provide token={ThemeToken} value="dark">
+        <PanelView />
+      </Provide>
+    );
+    act(() => panel.open());
+    expect(seen).toEqual(['dark', 'dark']);
+  });
+});
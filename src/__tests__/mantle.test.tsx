@@ -0,0 +1,178 @@
+// @vitest-environment jsdom
+import { StrictMode, Suspense, act, type ReactElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, describe, expect, it } from 'vitest';
+import { Component, createComponent } from '../index';
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const roots: Root[] = [];
+
+afterEach(() => {
+  for (const root of roots.splice(0)) act(() => root.unmount());
+});
+
+function render(element: ReactElement): HTMLElement {
+  const container = document.createElement('div');
+  const root = createRoot(container);
+  roots.push(root);
+  act(() => root.render(element));
+  return container;
+}
+
+describe('createComponent', () => {
+  it('keeps watchers and resources running under StrictMode', async () => {
+    const seen: number[] = [];
+
+    class Profile extends Component {
+      clicks = 0;
+      user = this.resource(
+        () => 'me',
+        async () => 'Ada'
+      );
+      onCreate() {
+        this.watch(() => this.clicks, clicks => seen.push(clicks));
+      }
+      click() {
+        this.clicks++;
+      }
+      render() {
+        return <button onClick={this.click}>{this.user.value ?? 'loading'}</button>;
+      }
+    }
+    const ProfileView = createComponent(Profile);
+
+    const container = render(<StrictMode><ProfileView /></StrictMode>);
+    await act(() => new Promise(resolve => setTimeout(resolve, 0)));
+    expect(container.textContent).toBe('Ada');
+
+    act(() => container.querySelector('button')!.click());
+    expect(seen).toEqual([1]);
+  });
+});
+
+describe('Suspense', () => {
+  const settle = () => act(() => new Promise(resolve => setTimeout(resolve, 10)));
+
+  it('keeps the instance of a component that suspends on its first client render', async () => {
+    let instances = 0;
+    let fetches = 0;
+
+    class User extends Component<{ id: string }> {
+      user = this.resource(
+        () => this.props.id,
+        async (id) => {
+          fetches++;
+          await new Promise(resolve => setTimeout(resolve, 5));
+          return `user ${id}`;
+        }
+      );
+      onCreate() {
+        instances++;
+      }
+      render() {
+        return <p>{this.suspendOn(this.user)}</p>;
+      }
+    }
+    const UserView = createComponent(User);
+
+    const container = render(
+      <Suspense fallback={<p>loading</p>}>
+        <UserView id="1" />
+        <UserView id="2" />
+      </Suspense>
+    );
+    expect(container.textContent).toBe('loading');
+
+    await settle();
+    await settle();
+    expect(container.textContent).toBe('user 1user 2');
+    expect(instances).toBe(2);
+    expect(fetches).toBe(2);
+  });
+
+  it('matches the retry under a parent that is rendered again', async () => {
+    let fetches = 0;
+
+    class Child extends Component<{ onPick: () => void }> {
+      data = this.resource(
+        () => 'key',
+        async () => {
+          fetches++;
+          await new Promise(resolve => setTimeout(resolve, 5));
+          return 'done';
+        }
+      );
+      render() {
+        return <span>{this.suspendOn(this.data)}</span>;
+      }
+    }
+    const ChildView = createComponent(Child);
+
+    class Layout extends Component {
+      render() {
+        return <ChildView onPick={() => {}} />;
+      }
+    }
+    const LayoutView = createComponent(Layout);
+
+    const container = render(
+      <Suspense fallback="loading">
+        <LayoutView />
+      </Suspense>
+    );
+
+    await settle();
+    await settle();
+    expect(container.textContent).toBe('done');
+    expect(fetches).toBe(1);
+  });
+});
+
+describe('region', () => {
+  it('re-renders only the region when what it reads changes', () => {
+    const renders = { board: 0, cursor: 0, title: 0 };
+    let board!: Board;
+
+    class Board extends Component {
+      title = 'Board';
+      pointer = { x: 0, y: 0 };
+      onCreate() {
+        board = this;
+      }
+      move(x: number, y: number) {
+        this.pointer = { x, y };
+      }
+      rename(title: string) {
+        this.title = title;
+      }
+      render() {
+        renders.board++;
+        return (
+          <section>
+            <h1>{this.region(() => {
+              renders.title++;
+              return <>{this.title}</>;
+            })}</h1>
+            {this.region(() => {
+              renders.cursor++;
+              return <p>{this.pointer.x},{this.pointer.y}</p>;
+            })}
+          </section>
+        );
+      }
+    }
+    const BoardView = createComponent(Board);
+
+    const container = render(<BoardView />);
+    expect(renders).toEqual({ board: 1, cursor: 1, title: 1 });
+
+    act(() => board.move(3, 4));
+    expect(container.querySelector('p')!.textContent).toBe('3,4');
+    expect(renders).toEqual({ board: 1, cursor: 2, title: 1 });
+
+    act(() => board.rename('Plans'));
+    expect(container.querySelector('h1')!.textContent).toBe('Plans');
+    expect(renders).toEqual({ board: 1, cursor: 2, title: 2 });
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Component, configure, memoryStorageAdapter, withPersist, type StorageAdapter } from '../index';
+import { createTestComponent, installFakeTimers, type FakeTimers } from '../testing';
+
+function settingsWith(storage: StorageAdapter, version = 2) {
+  return class Settings extends Component {
+    theme = 'light';
+    fontSize = 14;
+    draft = '';
+    persist = withPersist(this, {
+      key: 'settings',
+      storage,
+      fields: ['theme', 'fontSize'],
+      version,
+      // Stored by version 1 as `size`
+      migrate: (state, fromVersion) => fromVersion === 1 ? { theme: state.theme, fontSize: state.size } : state,
+    });
+    setTheme(theme: string) {
+      this.theme = theme;
+    }
+    setDraft(draft: string) {
+      this.draft = draft;
+    }
+  };
+}
+
+let clock: FakeTimers | undefined;
+
+afterEach(() => {
+  clock?.restore();
+  clock = undefined;
+  configure({ onError: undefined });
+});
+
+describe('withPersist', () => {
+  it('restores saved fields before onCreate', () => {
+    const store = new Map([['settings', JSON.stringify({ version: 2, state: { theme: 'dark', fontSize: 16 } })]]);
+    let themeInOnCreate: string | undefined;
+
+    class Settings extends settingsWith(memoryStorageAdapter(store)) {
+      onCreate() {
+        themeInOnCreate = this.theme;
+      }
+    }
+
+    const t = createTestComponent(Settings);
+    expect(themeInOnCreate).toBe('dark');
+    expect(t.vm.fontSize).toBe(16);
+    expect(t.vm.persist.restored).toBe(true);
+  });
+
+  it('migrates state written by an older version', () => {
+    const store = new Map([['settings', JSON.stringify({ version: 1, state: { theme: 'dark', size: 18 } })]]);
+    const t = createTestComponent(settingsWith(memoryStorageAdapter(store)));
+    expect(t.vm.theme).toBe('dark');
+    expect(t.vm.fontSize).toBe(18);
+
+    // The migrated state is written back on mount
+    t.mount();
+    t.unmount();
+    expect(JSON.parse(store.get('settings')!)).toEqual({ version: 2, state: { theme: 'dark', fontSize: 18 } });
+  });
+
+  it('discards state from another version without a migration', () => {
+    const store = new Map([['settings', JSON.stringify({ version: 3, state: { theme: 'dark', fontSize: 18 } })]]);
+
+    class Settings extends Component {
+      theme = 'light';
+      persist = withPersist(this, { key: 'settings', storage: memoryStorageAdapter(store) });
+    }
+
+    expect(createTestComponent(Settings).vm.theme).toBe('light');
+  });
+
+  it('batches writes by the delay and writes pending changes on unmount', () => {
+    clock = installFakeTimers();
+    const store = new Map<string, string>();
+    const storage = memoryStorageAdapter(store);
+    const setItem = vi.spyOn(storage, 'setItem');
+
+    const t = createTestComponent(settingsWith(storage));
+    t.mount();
+    clock.advance(300);
+    setItem.mockClear();
+
+    t.vm.setTheme('dark');
+    t.vm.setTheme('blue');
+    // Fields that aren't persisted don't cause writes
+    t.vm.setDraft('hello');
+    clock.advance(299);
+    expect(setItem).not.toHaveBeenCalled();
+    clock.advance(1);
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(store.get('settings')!).state).toEqual({ theme: 'blue', fontSize: 14 });
+
+    t.vm.setTheme('green');
+    t.unmount();
+    expect(JSON.parse(store.get('settings')!).state.theme).toBe('green');
+  });
+
+  it('restores from an async adapter once the read settles', async () => {
+    const store = new Map([['settings', JSON.stringify({ version: 2, state: { theme: 'dark', fontSize: 16 } })]]);
+    const storage: StorageAdapter = {
+      getItem: async key => store.get(key) ?? null,
+      setItem: async (key, value) => {
+        store.set(key, value);
+      },
+      removeItem: async key => {
+        store.delete(key);
+      },
+    };
+
+    const t = createTestComponent(settingsWith(storage));
+    expect(t.vm.persist.restored).toBe(false);
+    expect(t.vm.theme).toBe('light');
+
+    await vi.waitFor(() => expect(t.vm.persist.restored).toBe(true));
+    expect(t.vm.theme).toBe('dark');
+  });
+
+  it("reports unreadable state with phase 'persist' and keeps the defaults", () => {
+    const onError = vi.fn();
+    configure({ onError });
+    const store = new Map([['settings', '{not json']]);
+
+    const t = createTestComponent(settingsWith(memoryStorageAdapter(store)));
+    expect(t.vm.theme).toBe('light');
+    expect(t.vm.persist.restored).toBe(true);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][1]).toMatchObject({ phase: 'persist', name: 'Settings' });
+  });
+});
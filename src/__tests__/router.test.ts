@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { Route, Router, memoryHistory } from '../router';
+
+const routes = {
+  search: Route('/search'),
+  user: Route<{ id: string }, { tab: string; page: number; all: boolean }>('/users/:id', {
+    search: { page: Number, all: Boolean },
+  }),
+};
+
+describe('Router search params', () => {
+  it('keeps undeclared values as strings', () => {
+    const router = new Router(routes, { history: memoryHistory('/search?zip=01234&id=9007199254740993&q=-1') });
+    expect(router.search).toEqual({ zip: '01234', id: '9007199254740993', q: '-1' });
+    expect(router.getSearch('search')).toEqual({ zip: '01234', id: '9007199254740993', q: '-1' });
+  });
+
+  it('converts the values a route declares', () => {
+    const router = new Router(routes, { history: memoryHistory('/users/7?tab=01&page=2&all=true') });
+    expect(router.getSearch('user')).toEqual({ tab: '01', page: 2, all: true });
+    // Without a name, the current route's types apply
+    expect(router.getSearch()).toEqual({ tab: '01', page: 2, all: true });
+    expect(router.match({ user: (_params, search) => search })).toEqual({ tab: '01', page: 2, all: true });
+  });
+
+  it('leaves out declared numbers that do not parse', () => {
+    const router = new Router(routes, { history: memoryHistory('/users/7?page=abc&all=false') });
+    expect(router.getSearch('user')).toEqual({ all: false });
+  });
+});
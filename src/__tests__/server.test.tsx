@@ -0,0 +1,152 @@
+import { Suspense, type ReactElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { runInAction } from 'mobx';
+import { Component, createComponent } from '../index';
+import { renderToStringWithState, serializeState } from '../server';
+
+interface Post {
+  id: number;
+  title: string;
+}
+
+const db: Record<number, string> = { 1: 'Ada </script><script>alert(1)</script>', 2: 'Grace' };
+
+describe('renderToStringWithState', () => {
+  it('prefetches over several passes, until children revealed by data have loaded', async () => {
+    let prefetches = 0;
+
+    class Author extends Component<{ id: number }> {
+      name: string | null = null;
+      async onServerPrefetch() {
+        prefetches++;
+        const name = db[this.props.id];
+        runInAction(() => (this.name = name));
+      }
+      render() {
+        return <em>{this.name ?? '…'}</em>;
+      }
+    }
+    const AuthorView = createComponent(Author);
+
+    class Feed extends Component {
+      posts: Post[] = [];
+      async onServerPrefetch() {
+        prefetches++;
+        const posts = [{ id: 1, title: 'First' }, { id: 2, title: 'Second' }];
+        runInAction(() => (this.posts = posts));
+      }
+      render() {
+        return (
+          <ul>
+            {this.posts.map(post => (
+              <li key={post.id}>
+                {post.title} by <AuthorView id={post.id} />
+              </li>
+            ))}
+          </ul>
+        );
+      }
+    }
+    const FeedView = createComponent(Feed);
+
+    const { html, state } = await renderToStringWithState(<FeedView />);
+    const markup = html.replace(/<!-- -->/g, '');
+
+    expect(prefetches).toBe(3);
+    expect(markup).toContain('First by <em>Ada &lt;/script&gt;');
+    expect(markup).toContain('Second by <em>Grace</em>');
+
+    const snapshots = Object.values(state);
+    expect(snapshots).toContainEqual({ posts: [{ id: 1, title: 'First' }, { id: 2, title: 'Second' }] });
+    expect(snapshots).toContainEqual({ name: 'Grace' });
+
+    const script = serializeState(state);
+    expect(script.startsWith('<script>window["__MANTLE_STATE__"]=')).toBe(true);
+    // Only the closing tag of the script itself survives
+    expect(script.match(/<\/script>/g)).toHaveLength(1);
+
+    const json = script.slice(script.indexOf('=') + 1, -'</script>'.length);
+    expect(JSON.parse(json)).toEqual(state);
+  });
+
+  it('stops after maxPasses and renders with the data loaded so far', async () => {
+    let depth = 0;
+
+    class Nested extends Component<{ level: number }> {
+      loaded = false;
+      async onServerPrefetch() {
+        depth = Math.max(depth, this.props.level);
+        runInAction(() => (this.loaded = true));
+      }
+      render(): ReactElement {
+        return this.loaded ? <NestedView level={this.props.level + 1} /> : <span>level {this.props.level}</span>;
+      }
+    }
+    const NestedView = createComponent(Nested);
+
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      const { html } = await renderToStringWithState(<NestedView level={1} />, { maxPasses: 2 });
+      expect(depth).toBe(2);
+      expect(html.replace(/<!-- -->/g, '')).toBe('<span>level 3</span>');
+    } finally {
+      console.warn = warn;
+    }
+  });
+});
+
+describe('renderToString', () => {
+  it('stops the watchers of a server instance after its render', () => {
+    const seen: number[] = [];
+    let clock!: Clock;
+
+    class Clock extends Component {
+      ticks = 0;
+      onCreate() {
+        clock = this;
+        this.watch(() => this.ticks, ticks => seen.push(ticks));
+      }
+      tick() {
+        this.ticks++;
+      }
+      render() {
+        return <time>{this.ticks}</time>;
+      }
+    }
+    const ClockView = createComponent(Clock);
+
+    expect(renderToString(<ClockView />)).toBe('<time>0</time>');
+    expect(clock._mountState).toBe('unmounted');
+    clock.tick();
+    expect(seen).toEqual([]);
+  });
+});
+
+describe('Suspense on the server', () => {
+  it("doesn't hand an instance suspended in one request to another", () => {
+    const users: User[] = [];
+
+    class User extends Component<{ id: string }> {
+      user = this.resource(() => this.props.id, () => new Promise<string>(() => {}));
+      onCreate() {
+        users.push(this);
+      }
+      render() {
+        return <p>{this.suspendOn(this.user)}</p>;
+      }
+    }
+    const UserView = createComponent(User);
+
+    const page = (
+      <Suspense fallback={<p>loading</p>}>
+        <UserView id="1" />
+      </Suspense>
+    );
+    expect(renderToString(page)).toContain('loading');
+    expect(renderToString(page)).toContain('loading');
+    expect(users).toHaveLength(2);
+    expect(users.map(user => user._mountState)).toEqual(['unmounted', 'unmounted']);
+  });
+});
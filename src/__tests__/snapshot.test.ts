@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { isObservableProp } from 'mobx';
+import { Component, applySnapshot, createBehavior, Behavior, computed, defineBehavior, getSnapshot, observable, reactive, ref, transient } from '../index';
+import { createTestComponent } from '../testing';
+
+// Decorator metadata needs Symbol.metadata, which Node 20 doesn't define yet
+(Symbol as any).metadata ??= Symbol.for('Symbol.metadata');
+
+const withCounter = defineBehavior((initial: number) => {
+  const count = ref(initial);
+  const doubled = computed(() => count.value * 2);
+  return { count, doubled, increment: () => count.value++ };
+});
+
+const withFilter = defineBehavior(() =>
+  reactive({
+    query: '',
+    tags: ['a'],
+    get active() {
+      return this.query !== '';
+    },
+  })
+);
+
+const withSelection = createBehavior(class Selection extends Behavior {
+  selected: string[] = [];
+});
+
+class Board extends Component {
+  title = 'Board';
+  c = withCounter(5);
+  filter = withFilter();
+  selection = withSelection();
+}
+
+describe('getSnapshot / applySnapshot', () => {
+  it('captures defineBehavior state through its setup result', () => {
+    const t = createTestComponent(Board);
+    t.vm.c.increment();
+    t.vm.filter.query = 'mantle';
+
+    expect(getSnapshot(t.vm)).toEqual({
+      title: 'Board',
+      c: { count: 6 },
+      filter: { query: 'mantle', tags: ['a'] },
+      selection: { selected: [] },
+    });
+  });
+
+  it('restores defineBehavior state in place', () => {
+    const t = createTestComponent(Board);
+    const counter = t.vm.c;
+
+    applySnapshot(t.vm, { c: { count: 9 }, filter: { query: 'x', tags: [] }, selection: { selected: ['1'] } });
+
+    expect(t.vm.c).toBe(counter);
+    expect(t.vm.c.count.value).toBe(9);
+    expect(t.vm.c.doubled.value).toBe(18);
+    expect(t.vm.filter.query).toBe('x');
+    expect(t.vm.filter.active).toBe(true);
+    expect(t.vm.selection.selected).toEqual(['1']);
+  });
+
+  it('round-trips through JSON', () => {
+    const source = createTestComponent(Board);
+    source.vm.c.increment();
+    const target = createTestComponent(Board);
+    applySnapshot(target.vm, JSON.parse(JSON.stringify(getSnapshot(source.vm))));
+    expect(getSnapshot(target.vm)).toEqual(getSnapshot(source.vm));
+  });
+});
+
+describe('@transient', () => {
+  it('leaves an annotated field out of snapshots and keeps it observable', () => {
+    class Search extends Component {
+      @observable query = '';
+      @observable @transient results: string[] = [];
+      @transient scratch = '';
+    }
+
+    const { vm } = createTestComponent(Search);
+    vm.query = 'mantle';
+    vm.results = ['a'];
+    expect(getSnapshot(vm)).toEqual({ query: 'mantle' });
+    expect(isObservableProp(vm, 'results')).toBe(true);
+    expect(isObservableProp(vm, 'scratch')).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Behavior, Component, createBehavior } from '../index';
+import { createTestComponent, installFakeTimers, type FakeTimers } from '../testing';
+
+describe('createTestComponent', () => {
+  it('runs lifecycles in React order', () => {
+    const log: string[] = [];
+
+    class Logged extends Component<{ label: string }> {
+      onCreate() {
+        log.push(`create:${this.props.label}`);
+      }
+      onLayoutMount() {
+        log.push('layoutMount');
+        return () => log.push('layoutCleanup');
+      }
+      onMount() {
+        log.push('mount');
+        return () => log.push('mountCleanup');
+      }
+      onUpdate() {
+        log.push('update');
+      }
+      onUnmount() {
+        log.push('unmount');
+      }
+    }
+
+    const t = createTestComponent(Logged, { label: 'a' });
+    expect(log).toEqual(['create:a']);
+    expect(t.mounted).toBe(false);
+
+    t.mount();
+    expect(t.mounted).toBe(true);
+    t.update();
+    t.unmount();
+    expect(t.mounted).toBe(false);
+    expect(log).toEqual([
+      'create:a',
+      'layoutMount',
+      'mount',
+      'update',
+      'layoutCleanup',
+      'mountCleanup',
+      'unmount',
+    ]);
+  });
+
+  it('merges props, notifies watchers and runs onUpdate once mounted', () => {
+    const seen: number[] = [];
+    let updates = 0;
+
+    class Counter extends Component<{ step: number; label: string }> {
+      get doubled() {
+        return this.props.step * 2;
+      }
+      onCreate() {
+        this.watch(() => this.props.step, step => seen.push(step));
+      }
+      onUpdate() {
+        updates++;
+      }
+    }
+
+    const t = createTestComponent(Counter, { step: 1, label: 'x' });
+    t.setProps({ step: 2 });
+    expect(t.vm.props).toEqual({ step: 2, label: 'x' });
+    expect(t.vm.doubled).toBe(4);
+    expect(updates).toBe(0);
+
+    t.mount();
+    t.setProps({ step: 3 });
+    expect(seen).toEqual([2, 3]);
+    expect(updates).toBe(1);
+
+    t.unmount();
+    t.setProps({ step: 4 });
+    expect(seen).toEqual([2, 3]);
+  });
+
+  it('mounts and unmounts behaviors with their component', () => {
+    const log: string[] = [];
+
+    class Tracker extends Behavior {
+      onCreate(name: string) {
+        log.push(`create:${name}`);
+      }
+      onMount() {
+        log.push('behavior:mount');
+      }
+      onUnmount() {
+        log.push('behavior:unmount');
+      }
+    }
+    const withTracker = createBehavior(Tracker);
+
+    class Host extends Component {
+      tracker = withTracker('t');
+      onMount() {
+        log.push('component:mount');
+      }
+    }
+
+    const t = createTestComponent(Host);
+    t.mount();
+    t.unmount();
+    expect(log).toEqual(['create:t', 'behavior:mount', 'component:mount', 'behavior:unmount']);
+  });
+
+  it('rethrows lifecycle errors with errorPolicy "rethrow"', () => {
+    class Broken extends Component {
+      onMount() {
+        throw new Error('boom');
+      }
+    }
+
+    const t = createTestComponent(Broken, {}, { errorPolicy: 'rethrow' });
+    expect(() => t.mount()).toThrow('boom');
+  });
+});
+
+describe('installFakeTimers', () => {
+  let clock: FakeTimers;
+
+  afterEach(() => clock.restore());
+
+  it('drives delayed watchers', () => {
+    clock = installFakeTimers();
+    const seen: string[] = [];
+
+    class Search extends Component {
+      query = '';
+      onCreate() {
+        this.watch(() => this.query, q => seen.push(q), { delay: 300 });
+      }
+      setQuery(q: string) {
+        this.query = q;
+      }
+    }
+
+    const t = createTestComponent(Search);
+    t.mount();
+    t.vm.setQuery('m');
+    clock.advance(100);
+    t.vm.setQuery('mantle');
+    // The run scheduled by the first change picks up the latest value
+    expect(clock.pending).toBe(1);
+    clock.advance(199);
+    expect(seen).toEqual([]);
+    clock.advance(1);
+    expect(seen).toEqual(['mantle']);
+    t.unmount();
+  });
+});
@@ -1,5 +1,11 @@
-import { makeObservable, observable, computed, action, reaction, autorun, type AnnotationsMap } from 'mobx';
-import { globalConfig, reportError, type WatchOptions, type EffectOptions } from './config';
+import { makeObservable, observable, computed, action, reaction, autorun, isObservableProp, type AnnotationsMap } from 'mobx';
+import { globalConfig, reportError, traced, type MantleErrorContext, delayScheduler, type WatchOptions, type EffectOptions } from './config';
+import { getSetupContext, markInitialized, startWatcher } from './context';
+import type { Component } from './component';
+import { Task, startTask, trackLifecyclePromise } from './task';
+import { type Resource, type ResourceOptions, createResource } from './resource';
+import { type InjectionToken, getCurrentInjector, isInjected, resolveToken, setInstanceInjector } from './inject';
+import { trackInstance, reportLifecycle } from './registry';
 
 /** Symbol marker to identify behavior instances */
 export const BEHAVIOR_MARKER = Symbol('behavior');
@@ -12,16 +18,25 @@ const BEHAVIOR_EXCLUDES = new Set([
   'onUnmount',
   'watch',
   'effect',
+  'task',
+  'resource',
+  'inject',
   'constructor',
+  '_behaviors',
   '_watchDisposers',
+  '_watchRestarts',
   '_disposeWatchers',
+  '_restartWatchers',
 ]);
 
+/** Tracks the Component or parent Behavior owning each behavior — no footprint on the object itself */
+const behaviorOwners = new WeakMap<object, object>();
+
 /**
  * Detects if a value looks like a React ref ({ current: ... })
  * These should use observable.ref to preserve object identity
  */
-function isRefLike(value: unknown): boolean {
+export function isRefLike(value: unknown): boolean {
   if (value === null || typeof value !== 'object') return false;
   if (Array.isArray(value)) return false;
   return 'current' in value && Object.keys(value).length === 1;
@@ -42,14 +57,65 @@ function isRefLike(value: unknown): boolean {
  * ```
  */
 export class Behavior {
+  /** @internal - Nested behaviors, driven through this behavior's lifecycle */
+  _behaviors: BehaviorEntry[] = [];
+
   /** @internal */
   _watchDisposers: (() => void)[] = [];
 
+  /** @internal */
+  _watchRestarts: (() => void)[] = [];
+
   onCreate?(...args: any[]): void;
   onLayoutMount?(): void | (() => void);
-  onMount?(): void | (() => void);
+  /** May be async: the signal aborts on unmount, and rejections are reported */
+  onMount?(signal: AbortSignal): void | (() => void) | Promise<void>;
   onUnmount?(): void;
 
+  /**
+   * The Component hosting this behavior. Available from the host's `onCreate`
+   * onward (not inside the behavior's own `onCreate`, which runs at construction).
+   *
+   * @example
+   * ```tsx
+   * onMount() {
+   *   const board = this.host.findAncestor(Board);
+   * }
+   * ```
+   */
+  get host(): Component<any> {
+    const host = hostOf(this);
+    if (!host) {
+      throw new Error(
+        `[mobx-mantle] ${this.constructor.name}: host is not available yet. ` +
+        `Behaviors are attached to their Component after construction — read this.host in onMount or later.`
+      );
+    }
+    return host;
+  }
+
+  // Subclasses may declare their own `host` field (e.g. a server hostname) — let it shadow the getter
+  set host(value: any) {
+    Object.defineProperty(this, 'host', { value, writable: true, enumerable: true, configurable: true });
+  }
+
+  /**
+   * Read a value provided with `<Provide>` above the host Component.
+   * Resolves against the providers present when the behavior was created. One
+   * created outside a render, e.g. `this.use(withX())` in an action, resolves
+   * against its host's providers once attached.
+   *
+   * @example
+   * ```tsx
+   * class AutosaveBehavior extends Behavior {
+   *   api = this.inject(ApiToken);
+   * }
+   * ```
+   */
+  inject<T>(token: InjectionToken<T>): T {
+    return resolveToken(this, token, () => hostOf(this));
+  }
+
   /**
    * Watch a reactive expression and run a callback when it changes.
    * Automatically disposed on unmount.
@@ -72,29 +138,21 @@ export class Behavior {
     callback: (value: T, prevValue: T | undefined) => void,
     options?: WatchOptions
   ): () => void {
-    const dispose = reaction(
+    // Stopped on unmount and started again on remount; fires immediately only the first time
+    return startWatcher(this, (restart) => reaction(
       expr,
       (value, prevValue) => {
         try {
-          callback(value, prevValue);
+          traced({ phase: 'watch', name: this.constructor.name, isBehavior: true }, () => callback(value, prevValue));
         } catch (e) {
-          reportError(e, { phase: 'watch', name: this.constructor.name, isBehavior: true });
+          reportBehaviorError(e, 'watch', this, true);
         }
       },
       {
-        delay: options?.delay,
-        fireImmediately: options?.fireImmediately,
+        scheduler: delayScheduler(options?.delay),
+        fireImmediately: options?.fireImmediately && !restart,
       }
-    );
-
-    this._watchDisposers.push(dispose);
-
-    // Return a dispose function that also removes from the array
-    return () => {
-      dispose();
-      const idx = this._watchDisposers.indexOf(dispose);
-      if (idx !== -1) this._watchDisposers.splice(idx, 1);
-    };
+    ));
   }
 
   /**
@@ -124,33 +182,80 @@ export class Behavior {
   ): () => void {
     let cleanup: (() => void) | undefined;
 
-    const dispose = autorun(
-      () => {
-        // Run previous cleanup before re-running effect
+    // Stopping (dispose, unmount) runs the last cleanup; a remount runs the effect again
+    return startWatcher(this, () => {
+      const dispose = autorun(
+        () => {
+          // Run previous cleanup before re-running effect
+          cleanup?.();
+          cleanup = undefined;
+
+          try {
+            const result = traced({ phase: 'effect', name: this.constructor.name, isBehavior: true }, fn);
+            if (typeof result === 'function') {
+              cleanup = result;
+            }
+          } catch (e) {
+            reportBehaviorError(e, 'effect', this, true);
+          }
+        },
+        { scheduler: delayScheduler(options?.delay) }
+      );
+      return () => {
         cleanup?.();
         cleanup = undefined;
+        dispose();
+      };
+    });
+  }
 
-        try {
-          const result = fn();
-          if (typeof result === 'function') {
-            cleanup = result;
-          }
-        } catch (e) {
-          reportError(e, { phase: 'effect', name: this.constructor.name, isBehavior: true });
-        }
-      },
-      { delay: options?.delay }
-    );
-
-    this._watchDisposers.push(dispose);
+  /**
+   * Run async work scoped to this behavior. The signal aborts when the host
+   * unmounts, after which the result is ignored. Rejections are reported.
+   *
+   * @param fn - Async function receiving an AbortSignal
+   * @returns A Task with observable `pending`, `value` and `error`
+   *
+   * @example
+   * ```tsx
+   * refresh() {
+   *   this.loading = this.task(async (signal) => {
+   *     this.data = await fetch(this.url, { signal }).then(r => r.json());
+   *   });
+   * }
+   * ```
+   */
+  task<T>(fn: (signal: AbortSignal) => Promise<T>): Task<T> {
+    return startTask(this._watchDisposers, fn, (e) => {
+      reportBehaviorError(e, 'task', this, true);
+    });
+  }
 
-    // Return a dispose function that runs cleanup and removes from array
-    return () => {
-      cleanup?.();
-      dispose();
-      const idx = this._watchDisposers.indexOf(dispose);
-      if (idx !== -1) this._watchDisposers.splice(idx, 1);
-    };
+  /**
+   * Keyed async data, re-fetched when the key changes. A request still in flight
+   * for the old key is aborted. Return `undefined` from the key function to skip fetching.
+   *
+   * @param key - Tracked expression returning the request key
+   * @param fetcher - Async function receiving the key and an AbortSignal
+   * @param options - `delay` debounces re-fetching, `initialValue` seeds `value`
+   * @returns A Resource with observable `value`, `loading` and `error`, and `refetch()`
+   *
+   * @example
+   * ```tsx
+   * onCreate(url: string) {
+   *   this.url = url;
+   *   this.data = this.resource(() => this.url, (url, signal) =>
+   *     fetch(url, { signal }).then(r => r.json())
+   *   );
+   * }
+   * ```
+   */
+  resource<K, T>(
+    key: () => K,
+    fetcher: (key: K, signal: AbortSignal) => Promise<T>,
+    options?: ResourceOptions<T>
+  ): Resource<K, T> {
+    return createResource(this, key, fetcher, options);
   }
 
   /** @internal */
@@ -160,6 +265,32 @@ export class Behavior {
     }
     this._watchDisposers.length = 0;
   }
+
+  /** @internal - Start again the watchers an unmount stopped (remount) */
+  _restartWatchers(): void {
+    for (const restart of [...this._watchRestarts]) {
+      restart();
+    }
+  }
+}
+
+/**
+ * @internal Field names holding behavior state: own properties and prototype field
+ * declarations, minus base members, functions and forwarded accessors (from a
+ * defineBehavior() setup result, already reactive — unlike the accessors MobX
+ * installs for observable fields). makeBehaviorObservable
+ * annotates these and getSnapshot captures them.
+ */
+export function behaviorStateKeys(instance: object): string[] {
+  const keys = new Set([
+    ...Object.keys(instance),
+    ...Object.keys(Object.getPrototypeOf(instance)),
+  ]);
+  return [...keys].filter(key =>
+    !BEHAVIOR_EXCLUDES.has(key) &&
+    !(Object.getOwnPropertyDescriptor(instance, key)?.get && !isObservableProp(instance, key)) &&
+    typeof (instance as any)[key] !== 'function'
+  );
 }
 
 /**
@@ -170,20 +301,13 @@ function makeBehaviorObservable<T extends object>(instance: T): void {
   const annotations: AnnotationsMap<T, never> = {} as AnnotationsMap<T, never>;
 
   // Collect own properties → observable
-  const ownKeys = new Set([
-    ...Object.keys(instance),
-    ...Object.keys(Object.getPrototypeOf(instance)),
-  ]);
-
-  for (const key of ownKeys) {
-    if (BEHAVIOR_EXCLUDES.has(key)) continue;
+  for (const key of behaviorStateKeys(instance)) {
     if (key in annotations) continue;
 
     const value = (instance as any)[key];
-    if (typeof value === 'function') continue;
 
-    // Use observable.ref for ref-like objects to preserve identity
-    if (isRefLike(value)) {
+    // Use observable.ref for nested behaviors, ref-like objects and injected values to preserve identity
+    if (isBehavior(value) || isRefLike(value) || isInjected(value)) {
       (annotations as any)[key] = observable.ref;
     } else {
       (annotations as any)[key] = observable;
@@ -215,8 +339,12 @@ function makeBehaviorObservable<T extends object>(instance: T): void {
 /** @internal */
 export interface BehaviorEntry {
   instance: any;
+  /** The Component or parent Behavior that drives this behavior's lifecycle */
+  owner: object;
   cleanup?: () => void;
   layoutCleanup?: () => void;
+  /** Aborts the signal passed to onMount */
+  controller?: AbortController;
 }
 
 /**
@@ -279,7 +407,7 @@ type BehaviorArgs<T extends new (...args: any[]) => any> =
 /**
  * Type that supports both `new` and direct call syntax
  */
-type BehaviorFactory<Args extends any[], Instance> = {
+export type BehaviorFactory<Args extends any[], Instance> = {
   new (...args: Args): Instance;
   (...args: Args): Instance;
 };
@@ -294,11 +422,15 @@ export function createBehavior<T extends new (...args: any[]) => any>(
 
     constructor(...args: any[]) {
       super(...args);
+      setInstanceInjector(this, getCurrentInjector());
       
       // Call onCreate with args (if it exists)
       if (typeof this.onCreate === 'function') {
-        this.onCreate(...args);
+        traced({ phase: 'onCreate', name: Def.name, isBehavior: true }, () => this.onCreate(...args));
       }
+
+      // Nested behaviors (fields or assigned in onCreate) follow this behavior's lifecycle
+      collectChildBehaviors(this);
       
       // Make the instance observable (respects global config and per-behavior options)
       const autoObservable = options?.autoObservable ?? globalConfig.autoObservable;
@@ -308,6 +440,15 @@ export function createBehavior<T extends new (...args: any[]) => any>(
         // For decorator users: applies decorator metadata
         makeObservable(this);
       }
+
+      // Resources created in onCreate start fetching now that fields are observable
+      markInitialized(this);
+
+      // Created inside a defineView()/defineBehavior() setup: the host drives our lifecycle
+      const ctx = getSetupContext();
+      if (ctx?._behaviors) {
+        ctx._behaviors.push(attachBehavior(ctx, this));
+      }
     }
   };
 
@@ -332,15 +473,114 @@ export function isBehavior(value: unknown): boolean {
   return (value.constructor as any)?.[BEHAVIOR_MARKER] === true;
 }
 
+/** @internal Link a behavior instance to its owner (Component or Behavior) and build its lifecycle entry */
+export function attachBehavior(owner: object, instance: any): BehaviorEntry {
+  behaviorOwners.set(instance, owner);
+  trackInstance(instance, 'behavior');
+  return { instance, owner };
+}
+
+/** @internal The Component or parent Behavior a behavior is attached to */
+export function getBehaviorOwner(instance: object): object | undefined {
+  return behaviorOwners.get(instance);
+}
+
+/** Scan a behavior's own properties for nested behaviors (skipping ones registered during setup) */
+function collectChildBehaviors(owner: any): void {
+  owner._behaviors ??= [];
+  for (const key of Object.keys(owner)) {
+    if (key.startsWith('_')) continue;
+    const value = owner[key];
+    if (!isBehavior(value)) continue;
+    if (owner._behaviors.some((entry: BehaviorEntry) => entry.instance === value)) continue;
+    // Built inside a defineView()/defineBehavior() setup, it registered with the setup first
+    const ctx = getSetupContext();
+    if (ctx?._behaviors && behaviorOwners.get(value) === ctx) {
+      const idx = ctx._behaviors.findIndex(entry => entry.instance === value);
+      if (idx !== -1) ctx._behaviors.splice(idx, 1);
+    }
+    owner._behaviors.push(attachBehavior(owner, value));
+  }
+}
+
+/** The Component a behavior is attached to, through any behaviors it is nested in; null until attached */
+function hostOf(inst: object): Component<any> | null {
+  let host = behaviorOwners.get(inst);
+  while (host && isBehavior(host)) host = behaviorOwners.get(host);
+  return (host as Component<any> | undefined) ?? null;
+}
+
+/**
+ * @internal Report an error from a behavior. Under the 'unmount-behavior' policy the behavior is
+ * then detached — after the current lifecycle pass, which may be iterating its owner's list.
+ */
+export function reportBehaviorError(error: unknown, phase: MantleErrorContext['phase'], inst: any, held = false): void {
+  const policy = reportError(error, { phase, name: inst.constructor.name, isBehavior: true, instance: inst }, held);
+  if (policy === 'unmount-behavior' && phase !== 'onUnmount') {
+    queueMicrotask(() => detachBehavior(inst));
+  }
+}
+
+/** Remove a behavior from its owner, unmounting it if the owner has mounted */
+function detachBehavior(inst: any): void {
+  const owner: any = behaviorOwners.get(inst);
+  if (!owner) return;
+  if (!isBehavior(owner)) {
+    (owner as Component<any>).release(inst);
+    return;
+  }
+  const entries = childrenOf(owner);
+  const idx = entries.findIndex(entry => entry.instance === inst);
+  if (idx === -1) return;
+  const [entry] = entries.splice(idx, 1);
+  let mountState: Component<any>['_mountState'] | undefined;
+  try {
+    mountState = (owner as Behavior).host._mountState;
+  } catch {
+    // Not attached to a Component yet
+  }
+  if (mountState === 'layoutMounted' || mountState === 'mounted') unmountBehavior(entry);
+  else disposeBehavior(entry);
+}
+
+/** Nested behavior entries of a behavior instance (none for plain objects) */
+function childrenOf(inst: any): BehaviorEntry[] {
+  return Array.isArray(inst._behaviors) ? inst._behaviors : [];
+}
+
+/** @internal Dispose watchers of a behavior that never mounted (and its nested behaviors) */
+export function disposeBehavior(behavior: BehaviorEntry): void {
+  const inst = behavior.instance;
+  if (typeof inst._disposeWatchers === 'function') {
+    inst._disposeWatchers();
+  }
+  for (const child of childrenOf(inst)) {
+    disposeBehavior(child);
+  }
+  reportLifecycle(inst, 'unmount');
+}
+
 /** @internal */
 export function layoutMountBehavior(behavior: BehaviorEntry): void {
   const inst = behavior.instance;
 
+  // Mounted again after an unmount: tracked anew, and the watchers it stopped start over
+  trackInstance(inst, 'behavior');
+  if (typeof inst._restartWatchers === 'function') {
+    inst._restartWatchers();
+  }
+
+  // Children first, mirroring behaviors-before-component ordering
+  for (const child of childrenOf(inst)) {
+    layoutMountBehavior(child);
+  }
+
   if ('onLayoutMount' in inst && typeof inst.onLayoutMount === 'function') {
     try {
-      behavior.layoutCleanup = inst.onLayoutMount() ?? undefined;
+      const result = traced({ phase: 'onLayoutMount', name: inst.constructor.name, isBehavior: true }, () => inst.onLayoutMount());
+      behavior.layoutCleanup = result ?? undefined;
     } catch (e) {
-      reportError(e, { phase: 'onLayoutMount', name: inst.constructor.name, isBehavior: true });
+      reportBehaviorError(e, 'onLayoutMount', inst);
     }
   }
 }
@@ -349,35 +589,54 @@ export function layoutMountBehavior(behavior: BehaviorEntry): void {
 export function mountBehavior(behavior: BehaviorEntry): void {
   const inst = behavior.instance;
 
+  for (const child of childrenOf(inst)) {
+    mountBehavior(child);
+  }
+
   if ('onMount' in inst && typeof inst.onMount === 'function') {
+    behavior.controller = new AbortController();
+    const { signal } = behavior.controller;
     try {
-      behavior.cleanup = inst.onMount() ?? undefined;
+      const result = traced({ phase: 'onMount', name: inst.constructor.name, isBehavior: true }, () => inst.onMount(signal));
+      const isAsync = trackLifecyclePromise(result, signal, (e) => {
+        reportBehaviorError(e, 'onMount', inst, true);
+      });
+      behavior.cleanup = isAsync ? undefined : result ?? undefined;
     } catch (e) {
-      reportError(e, { phase: 'onMount', name: inst.constructor.name, isBehavior: true });
+      reportBehaviorError(e, 'onMount', inst);
     }
   }
+  reportLifecycle(inst, 'mount');
 }
 
 /** @internal */
 export function unmountBehavior(behavior: BehaviorEntry): void {
-  // Call layout cleanup if exists
-  behavior.layoutCleanup?.();
+  const inst = behavior.instance;
+  behavior.controller?.abort();
 
-  // Call cleanup if exists
-  behavior.cleanup?.();
+  try {
+    // Call layout cleanup if exists
+    behavior.layoutCleanup?.();
 
-  // Call onUnmount if exists
-  const inst = behavior.instance;
-  if ('onUnmount' in inst && typeof inst.onUnmount === 'function') {
-    try {
-      inst.onUnmount();
-    } catch (e) {
-      reportError(e, { phase: 'onUnmount', name: inst.constructor.name, isBehavior: true });
+    // Call cleanup if exists
+    behavior.cleanup?.();
+
+    // Call onUnmount if exists
+    if ('onUnmount' in inst && typeof inst.onUnmount === 'function') {
+      traced({ phase: 'onUnmount', name: inst.constructor.name, isBehavior: true }, () => inst.onUnmount());
     }
+  } catch (e) {
+    reportBehaviorError(e, 'onUnmount', inst);
   }
 
   // Dispose all watchers
   if (typeof inst._disposeWatchers === 'function') {
     inst._disposeWatchers();
   }
+
+  // Then nested behaviors, mirroring component-before-behaviors teardown
+  for (const child of childrenOf(inst)) {
+    unmountBehavior(child);
+  }
+  reportLifecycle(inst, 'unmount');
 }
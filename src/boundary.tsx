@@ -0,0 +1,73 @@
+import { Component as ReactComponent, type ErrorInfo, type ReactNode } from 'react';
+import { runInAction } from 'mobx';
+import type { Component } from './component';
+import { reportError } from './config';
+
+/** Errors already reported with phase 'render' by the Mantle component that threw them */
+const reportedErrors = new WeakSet<object>();
+
+/**
+ * Failures reported during the current task. React retries a failed render
+ * synchronously (and replays it in development), throwing a fresh error each time.
+ */
+const recentFailures = new Set<string>();
+
+/** @internal Report a render error once, however many boundaries and retries it passes through */
+export function reportRenderError(error: unknown, vm: Component<any>): void {
+  const name = vm.constructor.name;
+  if (error !== null && typeof error === 'object') {
+    if (reportedErrors.has(error)) return;
+    reportedErrors.add(error);
+  }
+  const key = `${name}: ${String(error)}`;
+  if (recentFailures.has(key)) return;
+  if (recentFailures.size === 0) queueMicrotask(() => recentFailures.clear());
+  recentFailures.add(key);
+  reportError(error, { phase: 'render', name, isBehavior: false, instance: vm });
+}
+
+interface CatchBoundaryProps {
+  vm: Component<any>;
+  children?: ReactNode;
+}
+
+interface CatchBoundaryState {
+  /** The children that threw, while the error stands. New children from the ViewModel clear it. */
+  failed: { children: ReactNode } | null;
+  hasError: boolean;
+}
+
+/**
+ * @internal Error boundary around the output of a Component with onCatch. The
+ * ViewModel decides what to show: its re-render (e.g. a fallback, or the children
+ * again after a reset) hands the boundary new children, which lifts the error.
+ */
+export class CatchBoundary extends ReactComponent<CatchBoundaryProps, CatchBoundaryState> {
+  state: CatchBoundaryState = { failed: null, hasError: false };
+
+  static getDerivedStateFromError(): Partial<CatchBoundaryState> {
+    return { hasError: true };
+  }
+
+  static getDerivedStateFromProps(props: CatchBoundaryProps, state: CatchBoundaryState): Partial<CatchBoundaryState> | null {
+    if (!state.hasError) return null;
+    if (!state.failed) return { failed: { children: props.children } };
+    if (props.children !== state.failed.children) return { failed: null, hasError: false };
+    return null;
+  }
+
+  componentDidCatch(error: unknown, info: ErrorInfo) {
+    const { vm } = this.props;
+    const name = vm.constructor.name;
+    reportRenderError(error, vm);
+    try {
+      runInAction(() => vm.onCatch!(error, info));
+    } catch (e) {
+      reportError(e, { phase: 'onCatch', name, isBehavior: false, instance: vm });
+    }
+  }
+
+  render() {
+    return this.state.hasError ? null : this.props.children;
+  }
+}
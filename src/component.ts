@@ -0,0 +1,893 @@
+import type { Ref, JSX, ErrorInfo } from 'react';
+import {
+  makeObservable,
+  observable,
+  computed,
+  action,
+  runInAction,
+  reaction,
+  autorun,
+  observe,
+  isObservableObject,
+  isObservableArray,
+  isObservableMap,
+  AnnotationsMap,
+  type IObservableValue,
+} from 'mobx';
+import {
+  type BehaviorEntry,
+  attachBehavior,
+  isBehavior,
+  layoutMountBehavior,
+  mountBehavior,
+  unmountBehavior,
+  disposeBehavior,
+} from './behavior';
+import { reportError, traced, delayScheduler, setErrorPolicy, type ErrorPolicy, type WatchOptions, type EffectOptions } from './config';
+import { getAnnotations } from './decorators';
+import { Task, startTask, trackLifecyclePromise } from './task';
+import { type Resource, type ResourceOptions, createResource } from './resource';
+import { markInitialized, startWatcher } from './context';
+import { type InjectionToken, type Injector, isInjected, resolveToken, runWithInjector, setInstanceInjector } from './inject';
+import { trackInstance, reportLifecycle } from './registry';
+
+/** Tracks refs created by Component.ref() — no footprint on the object itself */
+const componentRefs = new WeakSet();
+
+/** Behavior instances held directly, or inside an array or Map */
+function behaviorsIn(value: unknown): any[] {
+  if (isBehavior(value)) return [value];
+  if (Array.isArray(value) || isObservableArray(value)) {
+    return (value as unknown[]).filter(isBehavior);
+  }
+  if (value instanceof Map || isObservableMap(value)) {
+    return [...(value as Map<unknown, unknown>).values()].filter(isBehavior);
+  }
+  return [];
+}
+
+/** Tracks the parent ViewModel of each instance — no footprint on the object itself */
+const instanceParents = new WeakMap<Component<any>, Component<any>>();
+
+/**
+ * How a renderer isolates a region: returns a node that renders `render()` under its
+ * own observer. Given to createInstance by the adapter.
+ */
+export type RegionRenderer = (instance: Component<any>, render: () => JSX.Element | null) => JSX.Element;
+
+/** The renderer's region factory per instance. Without one, regions render inline. */
+const instanceRegions = new WeakMap<Component<any>, RegionRenderer>();
+
+/** Custom elements hosting an instance, which re-dispatch emit() as DOM events */
+const eventHosts = new WeakMap<Component<any>, EventTarget>();
+
+/** @internal Dispatch the instance's emit() calls on a custom element too */
+export function setEventHost(instance: Component<any>, host: EventTarget): void {
+  eventHosts.set(instance, host);
+}
+
+export class Component<P = {}> {
+  /** @internal */
+  _propsBox!: IObservableValue<P>;
+
+  get props(): P {
+    return this._propsBox.get();
+  }
+
+  /** @internal — called by createComponent to silently update props during render */
+  _syncProps(value: P) {
+    // Directly set the internal value without triggering MobX notifications.
+    // React renders the component tree synchronously — if we used runInAction
+    // here, endBatch() would flush reactions and try to update other observer
+    // components while React is still rendering, causing:
+    //   "Cannot update component A while rendering component B"
+    //
+    // The value is updated so this._propsBox.get() returns the correct value
+    // during render. Reactions are notified separately in useLayoutEffect.
+    (this._propsBox as any).value_ = value;
+  }
+
+  forwardRef?: Ref<any>;
+
+  /** @internal */
+  _behaviors: BehaviorEntry[] = [];
+
+  /** @internal */
+  _watchDisposers: (() => void)[] = [];
+
+  /** @internal */
+  _watchRestarts: (() => void)[] = [];
+
+  /** @internal - How far behaviors have been driven, so late use() calls can catch up */
+  _mountState: 'created' | 'layoutMounted' | 'mounted' | 'unmounted' = 'created';
+
+  onCreate?(props: P): void;
+  onLayoutMount?(): void | (() => void);
+  /** May be async: the signal aborts on unmount, and rejections are reported */
+  onMount?(signal: AbortSignal): void | (() => void) | Promise<void>;
+  onUpdate?(): void;
+  onUnmount?(): void;
+  /** Server only: load data before the final render. State it sets is serialized for hydration. */
+  onServerPrefetch?(): Promise<void>;
+  /** Asked by the router before it navigates to another path. Return false to stay (e.g. unsaved changes). */
+  onBeforeLeave?(to: string): boolean | Promise<boolean>;
+  /**
+   * Makes this Component an error boundary: called (as an action) when a descendant
+   * throws while rendering. Store the error and render a fallback; clear it to retry.
+   */
+  onCatch?(error: unknown, info: ErrorInfo): void;
+
+  ref<T extends HTMLElement = HTMLElement>(): { current: T | null } {
+    const r = { current: null } as { current: T | null };
+    componentRefs.add(r);
+    return r;
+  }
+
+  /**
+   * Emit an event: calls the matching `on*` prop (`'select'` → `onSelect`) with
+   * `detail`. Inside a custom element (see `defineElement`), it also dispatches a
+   * bubbling `CustomEvent` of that name on the element.
+   *
+   * @example
+   * ```tsx
+   * class Picker extends Component<{ onSelect?: (id: string) => void }> {
+   *   choose(id: string) {
+   *     this.emit('select', id);
+   *   }
+   * }
+   * ```
+   */
+  emit(event: string, detail?: unknown): void {
+    const handler = (this.props as Record<string, unknown>)[`on${event[0].toUpperCase()}${event.slice(1)}`];
+    if (typeof handler === 'function') handler(detail);
+    eventHosts.get(this)?.dispatchEvent(new CustomEvent(event, { detail, bubbles: true, composed: true }));
+  }
+
+  /** The nearest Mantle Component rendering this one, or null at the root */
+  getParent<T extends Component<any> = Component<any>>(): T | null {
+    return (instanceParents.get(this) as T | undefined) ?? null;
+  }
+
+  /** The top-most Mantle Component above this one (itself if it has no parent) */
+  getRoot<T extends Component<any> = Component<any>>(): T {
+    let node: Component<any> = this;
+    let parent = node.getParent();
+    while (parent) {
+      node = parent;
+      parent = node.getParent();
+    }
+    return node as T;
+  }
+
+  /**
+   * Find the nearest ancestor ViewModel of a given class.
+   *
+   * @example
+   * ```tsx
+   * class Card extends Component {
+   *   get board() {
+   *     return this.findAncestor(Board);
+   *   }
+   * }
+   * ```
+   */
+  findAncestor<T extends Component<any>>(Type: abstract new (...args: any[]) => T): T | null {
+    let node = this.getParent();
+    while (node) {
+      if (node instanceof Type) return node;
+      node = node.getParent();
+    }
+    return null;
+  }
+
+  /**
+   * Read a value provided with `<Provide>` above this component.
+   * Works in field initializers, `onCreate`, getters and lifecycle methods.
+   *
+   * @example
+   * ```tsx
+   * class Board extends Component {
+   *   store = this.inject(StoreToken);
+   *
+   *   get cards() {
+   *     return this.store.cards;
+   *   }
+   * }
+   * ```
+   */
+  inject<T>(token: InjectionToken<T>): T {
+    return resolveToken(this, token);
+  }
+
+  /**
+   * Watch a reactive expression and run a callback when it changes.
+   * Automatically disposed on unmount.
+   * 
+   * @param expr - Reactive expression (getter) to watch
+   * @param callback - Called when the expression result changes
+   * @param options - Optional configuration (delay, fireImmediately)
+   * @returns Dispose function for early teardown
+   * 
+   * @example
+   * ```tsx
+   * onCreate() {
+   *   this.watch(
+   *     () => this.query,
+   *     async (query) => {
+   *       if (query.length > 2) {
+   *         this.results = await searchApi(query);
+   *       }
+   *     },
+   *     { delay: 300 }
+   *   );
+   * }
+   * ```
+   */
+  watch<T>(
+    expr: () => T,
+    callback: (value: T, prevValue: T | undefined) => void,
+    options?: WatchOptions
+  ): () => void {
+    // Stopped on unmount and started again on remount; fires immediately only the first time
+    return startWatcher(this, (restart) => reaction(
+      expr,
+      (value, prevValue) => {
+        try {
+          traced({ phase: 'watch', name: this.constructor.name, isBehavior: false }, () => callback(value, prevValue));
+        } catch (e) {
+          reportError(e, { phase: 'watch', name: this.constructor.name, isBehavior: false, instance: this }, true);
+        }
+      },
+      {
+        scheduler: delayScheduler(options?.delay),
+        fireImmediately: options?.fireImmediately && !restart,
+      }
+    ));
+  }
+
+  /**
+   * Run a side effect that auto-tracks reactive dependencies.
+   * Re-runs whenever any accessed observable changes.
+   * Automatically disposed on unmount.
+   * 
+   * Best for simple synchronization (DOM updates, logging). For complex
+   * side effects with explicit triggers, prefer `watch()`.
+   * 
+   * @param fn - Effect function. May return a cleanup function.
+   * @param options - Optional configuration (delay)
+   * @returns Dispose function for early teardown
+   * 
+   * @example
+   * ```tsx
+   * onCreate() {
+   *   this.effect(() => {
+   *     document.title = `${this.items.length} items`;
+   *   });
+   * }
+   * ```
+   * 
+   * @example With cleanup
+   * ```tsx
+   * onCreate() {
+   *   this.effect(() => {
+   *     const handler = () => console.log(this.count);
+   *     window.addEventListener('click', handler);
+   *     return () => window.removeEventListener('click', handler);
+   *   });
+   * }
+   * ```
+   */
+  effect(
+    fn: () => void | (() => void),
+    options?: EffectOptions
+  ): () => void {
+    let cleanup: (() => void) | undefined;
+
+    // Stopping (dispose, unmount) runs the last cleanup; a remount runs the effect again
+    return startWatcher(this, () => {
+      const dispose = autorun(
+        () => {
+          // Run previous cleanup before re-running effect
+          cleanup?.();
+          cleanup = undefined;
+
+          try {
+            const result = traced({ phase: 'effect', name: this.constructor.name, isBehavior: false }, fn);
+            if (typeof result === 'function') {
+              cleanup = result;
+            }
+          } catch (e) {
+            reportError(e, { phase: 'effect', name: this.constructor.name, isBehavior: false, instance: this }, true);
+          }
+        },
+        { scheduler: delayScheduler(options?.delay) }
+      );
+      return () => {
+        cleanup?.();
+        cleanup = undefined;
+        dispose();
+      };
+    });
+  }
+
+  /**
+   * Run async work scoped to this component. The signal aborts on unmount, after
+   * which the result is ignored. Rejections are reported through `onError`.
+   *
+   * @param fn - Async function receiving an AbortSignal
+   * @returns A Task with observable `pending`, `value` and `error`
+   *
+   * @example
+   * ```tsx
+   * save() {
+   *   this.saving = this.task(async (signal) => {
+   *     await fetch('/api/save', { method: 'POST', body: this.json, signal });
+   *   });
+   * }
+   *
+   * render() {
+   *   return <button disabled={this.saving?.pending}>Save</button>;
+   * }
+   * ```
+   */
+  task<T>(fn: (signal: AbortSignal) => Promise<T>): Task<T> {
+    return startTask(this._watchDisposers, fn, (e) => {
+      reportError(e, { phase: 'task', name: this.constructor.name, isBehavior: false, instance: this }, true);
+    });
+  }
+
+  /**
+   * Keyed async data. The fetcher runs for the current key, and again whenever the
+   * key changes — a request still in flight for the old key is aborted. Return
+   * `undefined` from the key function to skip fetching.
+   *
+   * @param key - Tracked expression returning the request key
+   * @param fetcher - Async function receiving the key and an AbortSignal
+   * @param options - `delay` debounces re-fetching, `initialValue` seeds `value`
+   * @returns A Resource with observable `value`, `loading` and `error`, and `refetch()`
+   *
+   * @example
+   * ```tsx
+   * user = this.resource(
+   *   () => this.props.userId,
+   *   (id, signal) => fetch(`/api/users/${id}`, { signal }).then(r => r.json())
+   * );
+   *
+   * render() {
+   *   if (this.user.loading) return <Spinner />;
+   *   return <Profile user={this.user.value} />;
+   * }
+   * ```
+   */
+  resource<K, T>(
+    key: () => K,
+    fetcher: (key: K, signal: AbortSignal) => Promise<T>,
+    options?: ResourceOptions<T>
+  ): Resource<K, T> {
+    return createResource(this, key, fetcher, options);
+  }
+
+  /**
+   * Read a Resource or Task from `render()`, suspending until it settles. Use inside
+   * a React `<Suspense>` boundary. A failed source throws its error to the nearest
+   * error boundary.
+   *
+   * @param source - A Resource (from `this.resource()`) or Task (from `this.task()`)
+   * @returns The settled value
+   *
+   * @example
+   * ```tsx
+   * render() {
+   *   const user = this.suspendOn(this.user);
+   *   return <h1>{user.name}</h1>;
+   * }
+   * ```
+   */
+  suspendOn<T>(source: Resource<any, T> | Task<T>): T {
+    const settling = source instanceof Task ? source.pending : source.loading;
+    if (settling) throw source.promise;
+    if (source.error !== undefined) throw source.error;
+    return source.value as T;
+  }
+
+  /**
+   * Render part of the output in its own reactive region. The region tracks what
+   * `render` reads and re-renders alone when that changes, without re-rendering the
+   * rest of the Component. Use it for fast-changing values like a drag position.
+   *
+   * @example
+   * ```tsx
+   * render() {
+   *   return (
+   *     <Canvas items={this.items}>
+   *       {this.region(() => <Cursor x={this.pointer.x} y={this.pointer.y} />)}
+   *     </Canvas>
+   *   );
+   * }
+   * ```
+   */
+  region(render: () => JSX.Element | null): JSX.Element {
+    const renderer = instanceRegions.get(this);
+    return renderer ? renderer(this, render) : (render() as JSX.Element);
+  }
+
+  /** @internal */
+  _disposeWatchers(): void {
+    for (const dispose of this._watchDisposers) {
+      dispose();
+    }
+    this._watchDisposers.length = 0;
+  }
+
+  /** @internal - Start again the watchers an unmount stopped (remount) */
+  _restartWatchers(): void {
+    for (const restart of [...this._watchRestarts]) {
+      restart();
+    }
+  }
+
+  /**
+   * Attach a behavior at runtime. If this component is already mounted, the
+   * behavior's `onLayoutMount`/`onMount` run immediately; otherwise it mounts
+   * with the component. Returns the behavior for inline use.
+   *
+   * Behaviors assigned to fields, or added to array/Map fields, are attached
+   * automatically — `use()` is for behaviors held anywhere else.
+   *
+   * @example
+   * ```tsx
+   * startDrag() {
+   *   this.drag = this.use(withDrag(this.canvas));
+   * }
+   * ```
+   */
+  use<T>(behavior: T): T {
+    if (this._behaviors.some(entry => entry.instance === behavior)) return behavior;
+
+    const entry = attachBehavior(this, behavior);
+    this._behaviors.push(entry);
+    if (this._mountState === 'layoutMounted' || this._mountState === 'mounted') {
+      layoutMountBehavior(entry);
+    }
+    if (this._mountState === 'mounted') {
+      mountBehavior(entry);
+    }
+    return behavior;
+  }
+
+  /**
+   * Detach a behavior attached with `use()` (or collected from a field).
+   * Runs its cleanups and `onUnmount`, and disposes its watchers.
+   */
+  release(behavior: unknown): void {
+    const idx = this._behaviors.findIndex(entry => entry.instance === behavior);
+    if (idx === -1) return;
+
+    const [entry] = this._behaviors.splice(idx, 1);
+    if (this._mountState === 'layoutMounted' || this._mountState === 'mounted') {
+      unmountBehavior(entry);
+    } else {
+      disposeBehavior(entry);
+    }
+  }
+
+  /** @internal - Scan own properties (including arrays and Maps) for behavior instances and register them */
+  _collectBehaviors(): void {
+    for (const key of Object.keys(this)) {
+      if (key.startsWith('_')) continue;
+      for (const behavior of behaviorsIn((this as any)[key])) {
+        if (this._behaviors.some(entry => entry.instance === behavior)) continue;
+        this._behaviors.push(attachBehavior(this, behavior));
+      }
+    }
+  }
+
+  /**
+   * @internal - Keep behaviors in sync with fields after creation: a field set to a
+   * behavior (or an array/Map gaining one) is attached, and replaced or removed
+   * behaviors are released. Requires the instance to be observable already.
+   */
+  _observeBehaviorFields(): void {
+    const collections = new Map<string, () => void>();
+
+    const observeCollection = (key: string, value: unknown) => {
+      collections.get(key)?.();
+      collections.delete(key);
+      if (!isObservableArray(value) && !isObservableMap(value)) return;
+
+      collections.set(key, observe(value as any, (change: any) => {
+        const removed = change.type === 'splice' ? change.removed : [change.oldValue];
+        const added = change.type === 'splice' ? change.added : [change.newValue];
+        for (const item of removed) if (isBehavior(item)) this.release(item);
+        for (const item of added) if (isBehavior(item)) this.use(item);
+      }));
+    };
+
+    startWatcher(this, () => {
+      for (const key of Object.keys(this)) {
+        if (key.startsWith('_')) continue;
+        observeCollection(key, (this as any)[key]);
+      }
+
+      const disposeFields = observe(this as any, (change: any) => {
+        if (typeof change.name !== 'string' || change.name.startsWith('_')) return;
+        for (const behavior of behaviorsIn(change.oldValue)) this.release(behavior);
+        for (const behavior of behaviorsIn(change.newValue)) this.use(behavior);
+        observeCollection(change.name, change.newValue);
+      });
+
+      return () => {
+        disposeFields();
+        for (const dispose of collections.values()) dispose();
+        collections.clear();
+      };
+    });
+  }
+
+  /** @internal */
+  _layoutMountBehaviors(): void {
+    for (const behavior of this._behaviors) {
+      layoutMountBehavior(behavior);
+    }
+    this._mountState = 'layoutMounted';
+  }
+
+  /** @internal */
+  _mountBehaviors(): void {
+    for (const behavior of this._behaviors) {
+      mountBehavior(behavior);
+    }
+    this._mountState = 'mounted';
+  }
+
+  /** @internal */
+  _unmountBehaviors(): void {
+    for (const behavior of this._behaviors) {
+      unmountBehavior(behavior);
+    }
+    this._mountState = 'unmounted';
+  }
+
+  render?(): JSX.Element | null;
+}
+
+// Base class members that should not be made observable
+const BASE_EXCLUDES = new Set([
+  'props',
+  '_propsBox',
+  'forwardRef', 
+  'onCreate',
+  'onLayoutMount',
+  'onMount', 
+  'onUpdate',
+  'onUnmount',
+  'onServerPrefetch',
+  'onBeforeLeave',
+  'onCatch',
+  'render', 
+  'ref',
+  'inject',
+  'getParent',
+  'getRoot',
+  'findAncestor',
+  'emit',
+  'use',
+  'release',
+  'watch',
+  'effect',
+  'task',
+  'resource',
+  'suspendOn',
+  'region',
+  'constructor',
+  '_behaviors',
+  '_mountState',
+  '_collectBehaviors',
+  '_observeBehaviorFields',
+  '_layoutMountBehaviors',
+  '_mountBehaviors',
+  '_unmountBehaviors',
+  '_syncProps',
+  '_watchDisposers',
+  '_watchRestarts',
+  '_disposeWatchers',
+  '_restartWatchers',
+]);
+
+/**
+ * Detects if a value is a ref created by Component.ref()
+ * These should use observable.ref to preserve object identity for React
+ */
+export function isComponentRef(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && componentRefs.has(value as object);
+}
+
+
+/**
+ * @internal Field names holding instance state: own properties, plus class field
+ * declarations on the prototype (uninitialized fields), minus base members and
+ * functions. makeComponentObservable annotates these and getSnapshot captures them.
+ */
+export function componentStateKeys(instance: Component<any>): string[] {
+  const keys = new Set([
+    ...Object.keys(instance),
+    ...Object.keys(Object.getPrototypeOf(instance)),
+  ]);
+  return [...keys].filter(key =>
+    !BASE_EXCLUDES.has(key) && typeof (instance as any)[key] !== 'function'
+  );
+}
+
+/**
+ * Creates observable annotations for a Component subclass instance.
+ * This is needed because makeAutoObservable doesn't work with inheritance.
+ */
+function makeComponentObservable<T extends Component>(instance: T, autoBind: boolean) {
+  const annotations: AnnotationsMap<T, never> = {} as AnnotationsMap<T, never>;
+
+  // Collect own properties (instance state) → observable
+  for (const key of componentStateKeys(instance)) {
+    if (key in annotations) continue;
+
+    const value = (instance as any)[key];
+
+    // Skip behavior instances (they're already observable)
+    if (isBehavior(value)) {
+      (annotations as any)[key] = observable.ref;
+      continue;
+    }
+
+    // Use observable.ref for Component.ref() objects and injected values to preserve identity
+    if (isComponentRef(value) || isInjected(value)) {
+      (annotations as any)[key] = observable.ref;
+    } else {
+      (annotations as any)[key] = observable;
+    }
+  }
+
+  // Walk prototype chain up to (but not including) Component
+  let proto = Object.getPrototypeOf(instance);
+  while (proto && proto !== Component.prototype) {
+    const descriptors = Object.getOwnPropertyDescriptors(proto);
+
+    for (const [key, descriptor] of Object.entries(descriptors)) {
+      if (BASE_EXCLUDES.has(key)) continue;
+      if (key in annotations) continue;
+
+      if (descriptor.get) {
+        // Getter → computed
+        (annotations as any)[key] = computed;
+      } else if (typeof descriptor.value === 'function') {
+        // Method → action (optionally bound)
+        (annotations as any)[key] = autoBind ? action.bound : action;
+      }
+    }
+
+    proto = Object.getPrototypeOf(proto);
+  }
+
+  makeObservable(instance, annotations);
+}
+
+/** @internal */
+export type PropsOf<C> = C extends Component<infer P> ? P : object;
+
+/** @internal Options for createInstance */
+export interface InstanceOptions {
+  autoObservable?: boolean;
+  forwardRef?: Ref<any>;
+  injector?: Injector | null;
+  parent?: Component<any> | null;
+  /** Restore serialized state (e.g. from the server) after observability is set up, before onCreate */
+  restore?: (instance: Component<any>) => void;
+  /** Overrides the global errorPolicy for this instance and its behaviors */
+  errorPolicy?: ErrorPolicy;
+  /** How the renderer isolates `this.region()` */
+  region?: RegionRenderer;
+}
+
+/**
+ * @internal Construct and initialize a Component instance: props box, behavior
+ * collection, observable annotations, then onCreate with reactive props.
+ * Renderer-independent — createComponent and mobx-mantle/testing both use this.
+ */
+export function createInstance<C extends Component<any>>(
+  ComponentClass: new () => C,
+  props: PropsOf<C>,
+  options: InstanceOptions
+): C {
+  // Keep the injector active for the whole setup so field initializers,
+  // behaviors and onCreate can all call inject()
+  const injector = options.injector ?? null;
+  return runWithInjector(injector, () => {
+    const instance = new ComponentClass();
+    setInstanceInjector(instance, injector);
+    if (options.parent) instanceParents.set(instance, options.parent);
+    if (options.errorPolicy) setErrorPolicy(instance, options.errorPolicy);
+    if (options.region) instanceRegions.set(instance, options.region);
+    return initInstance(instance, props, options);
+  });
+}
+
+function initInstance<C extends Component<any>>(
+  instance: C,
+  props: PropsOf<C>,
+  options: InstanceOptions
+): C {
+
+  // Props is always reactive via observable.box (works with all decorator modes)
+  instance._propsBox = observable.box(props, { deep: false });
+  instance.forwardRef = options.forwardRef;
+
+  // Collect behavior instances from properties (must happen before makeObservable)
+  instance._collectBehaviors();
+
+  // Check for Mantle decorator annotations first
+  const decoratorAnnotations = getAnnotations(instance);
+
+  if (decoratorAnnotations) {
+    // Mantle decorators: use collected annotations
+    // Auto-bind all methods for stable `this` references
+    const annotations = { ...decoratorAnnotations };
+
+    // Walk prototype chain to auto-bind methods not explicitly decorated
+    let proto = Object.getPrototypeOf(instance);
+    while (proto && proto !== Component.prototype) {
+      const descriptors = Object.getOwnPropertyDescriptors(proto);
+      for (const [key, descriptor] of Object.entries(descriptors)) {
+        if (BASE_EXCLUDES.has(key)) continue;
+        if (key in annotations) continue;
+        if (typeof descriptor.value === 'function') {
+          annotations[key] = action.bound;
+        }
+      }
+      proto = Object.getPrototypeOf(proto);
+    }
+
+    makeObservable(instance, annotations as AnnotationsMap<C, never>);
+  } else if (options.autoObservable) {
+    makeComponentObservable(instance, true);
+  } else {
+    // For legacy decorator users: applies decorator metadata
+    makeObservable(instance);
+  }
+
+  // Resources created in field initializers start fetching now that fields are observable
+  markInitialized(instance);
+
+  // From here on, behaviors assigned to fields (or added to array/Map fields) attach themselves
+  if (isObservableObject(instance)) {
+    instance._observeBehaviorFields();
+  }
+
+  // Server-rendered state lands before onCreate, so onCreate sees hydrated values
+  options.restore?.(instance);
+
+  // Proxy forwards property access to instance.props, so reads are tracked
+  // by MobX when used in reactions/computeds (same behavior as this.props)
+  const reactiveProps = new Proxy({} as PropsOf<C>, {
+    get: (_, key) => (instance.props as any)[key],
+    has: (_, key) => key in (instance.props as any),
+    ownKeys: () => Reflect.ownKeys(instance.props as object),
+    getOwnPropertyDescriptor: (_, key) =>
+      Reflect.getOwnPropertyDescriptor(instance.props as object, key),
+  });
+  if (instance.onCreate) {
+    traced({ phase: 'onCreate', name: instance.constructor.name, isBehavior: false }, () => instance.onCreate!(reactiveProps));
+  }
+
+  // Pick up behaviors onCreate assigned to fields that had no initializer (not observable, so not observed)
+  instance._collectBehaviors();
+
+  trackInstance(instance, 'component');
+
+  return instance;
+}
+
+/** @internal Point getParent() at a new parent (a suspended render was retried under one) */
+export function setInstanceParent(vm: Component<any>, parent: Component<any> | null): void {
+  if (parent) instanceParents.set(vm, parent);
+  else instanceParents.delete(vm);
+}
+
+/** @internal Set props and notify MobX observers (outside of render) */
+export function setInstanceProps<C extends Component<any>>(vm: C, props: PropsOf<C>): void {
+  runInAction(() => {
+    vm._propsBox.set(props);
+  });
+}
+
+/** @internal Run behavior + component onLayoutMount. Returns the layout cleanup. */
+export function layoutMountInstance(vm: Component<any>): () => void {
+  const name = vm.constructor.name;
+  if (vm._mountState === 'unmounted') {
+    // Mounted again after an unmount (StrictMode): the watchers it stopped start over
+    trackInstance(vm, 'component');
+    vm._restartWatchers();
+  }
+  vm._layoutMountBehaviors();
+  let cleanup: (() => void) | undefined;
+  try {
+    const result = vm.onLayoutMount && traced({ phase: 'onLayoutMount', name, isBehavior: false }, () => vm.onLayoutMount!());
+    if (process.env.NODE_ENV !== 'production' && result instanceof Promise) {
+      console.error(
+        `[mobx-mantle] ${name}.onLayoutMount() returned a Promise. ` +
+        `Lifecycle methods must be synchronous. Use a sync onLayoutMount that ` +
+        `calls an async method instead.`
+      );
+    }
+    cleanup = result as (() => void) | undefined;
+  } catch (e) {
+    reportError(e, { phase: 'onLayoutMount', name, isBehavior: false, instance: vm });
+  }
+  return () => {
+    cleanup?.();
+  };
+}
+
+/** Mounted instances with an onBeforeLeave guard, asked by the router before navigating */
+const leaveGuards = new Set<Component<any>>();
+
+/** @internal Mounted instances defining onBeforeLeave, in mount order */
+export function getLeaveGuards(): Component<any>[] {
+  return [...leaveGuards];
+}
+
+/**
+ * @internal Run behavior + component onMount. Returns the unmount teardown:
+ * mount cleanup, onUnmount, watcher disposal, then behavior unmount.
+ */
+export function mountInstance(vm: Component<any>): () => void {
+  const name = vm.constructor.name;
+  vm._mountBehaviors();
+  const controller = new AbortController();
+  let cleanup: (() => void) | undefined;
+  try {
+    const result = vm.onMount && traced({ phase: 'onMount', name, isBehavior: false }, () => vm.onMount!(controller.signal));
+    // Async onMount: no cleanup, but rejections are reported until unmount aborts it
+    const isAsync = trackLifecyclePromise(result, controller.signal, (e) => {
+      reportError(e, { phase: 'onMount', name, isBehavior: false, instance: vm }, true);
+    });
+    if (!isAsync) cleanup = result as (() => void) | undefined;
+  } catch (e) {
+    reportError(e, { phase: 'onMount', name, isBehavior: false, instance: vm });
+  }
+  if (vm.onBeforeLeave) leaveGuards.add(vm);
+  reportLifecycle(vm, 'mount');
+  return () => {
+    leaveGuards.delete(vm);
+    controller.abort();
+    cleanup?.();
+    try {
+      if (vm.onUnmount) traced({ phase: 'onUnmount', name, isBehavior: false }, () => vm.onUnmount!());
+    } catch (e) {
+      reportError(e, { phase: 'onUnmount', name, isBehavior: false, instance: vm });
+    }
+    vm._disposeWatchers();
+    vm._unmountBehaviors();
+    reportLifecycle(vm, 'unmount');
+  };
+}
+
+/**
+ * @internal Dispose an instance that was created but never mounted (its render
+ * was abandoned): stops watchers, tasks and resources, including its behaviors'.
+ */
+export function disposeInstance(vm: Component<any>): void {
+  vm._disposeWatchers();
+  for (const entry of vm._behaviors) {
+    disposeBehavior(entry);
+  }
+  vm._mountState = 'unmounted';
+  reportLifecycle(vm, 'unmount');
+}
+
+/** @internal Run onUpdate (after every render) */
+export function updateInstance(vm: Component<any>): void {
+  try {
+    if (vm.onUpdate) traced({ phase: 'onUpdate', name: vm.constructor.name, isBehavior: false }, () => vm.onUpdate!());
+  } catch (e) {
+    reportError(e, { phase: 'onUpdate', name: vm.constructor.name, isBehavior: false, instance: vm });
+  }
+  reportLifecycle(vm, 'update');
+}
@@ -17,11 +17,49 @@ export interface EffectOptions {
  */
 export interface MantleErrorContext {
   /** The lifecycle phase where the error occurred */
-  phase: 'onLayoutMount' | 'onMount' | 'onUpdate' | 'onUnmount' | 'watch' | 'effect';
+  phase: 'onLayoutMount' | 'onMount' | 'onUpdate' | 'onUnmount' | 'watch' | 'effect' | 'task' | 'onServerPrefetch' | 'persist' | 'onBeforeLeave' | 'render' | 'onCatch';
   /** The Component or Behavior class name */
   name: string;
   /** Whether the error came from a Behavior (true) or a Component (false) */
   isBehavior: boolean;
+  /** The Component or Behavior instance the error came from */
+  instance: object;
+  /** The Component the error belongs to: the instance itself, or a Behavior's host (null if not attached yet) */
+  component: object | null;
+  /** Class names from the root Component down, e.g. `App > Board > Card` (ending with the Behavior for behavior errors) */
+  path: string;
+  /** The component's props when the error happened */
+  props: unknown;
+}
+
+/**
+ * What happens to lifecycle errors:
+ * - `'report'`: pass them to onError (or console.error) and carry on
+ * - `'rethrow'`: throw them where they happened, e.g. to fail tests. Errors from watch/effect
+ *   callbacks and async work (tasks, resources, async onMount) can't be thrown to a caller:
+ *   they are rethrown from the next lifecycle call (mount, setProps, update, unmount),
+ *   or from a timer if none comes first
+ * - `'unmount-behavior'`: report, then detach the Behavior that failed so it stops running
+ */
+export type ErrorPolicy = 'report' | 'rethrow' | 'unmount-behavior';
+
+/** @internal What a call site knows about an error; reportError works out the rest */
+export type ErrorSource = Pick<MantleErrorContext, 'phase' | 'name' | 'isBehavior' | 'instance'>;
+
+/**
+ * A timed lifecycle, render or reaction run, passed to the onTrace handler
+ */
+export interface MantleTraceEvent {
+  /** What ran: a lifecycle method, a render, or a watch/effect callback */
+  phase: 'onCreate' | 'onLayoutMount' | 'onMount' | 'onUpdate' | 'onUnmount' | 'render' | 'watch' | 'effect';
+  /** The Component or Behavior class name */
+  name: string;
+  /** Whether it ran in a Behavior (true) or a Component (false) */
+  isBehavior: boolean;
+  /** When it started, in `performance.now()` milliseconds */
+  startTime: number;
+  /** How long it ran synchronously, in milliseconds (async work isn't included) */
+  duration: number;
 }
 
 /**
@@ -30,24 +68,137 @@ export interface MantleErrorContext {
 export interface MantleConfig {
   /** Whether to automatically make Component/Behavior instances observable (default: true) */
   autoObservable?: boolean;
+  /**
+   * Keep ViewModel state when hot module replacement swaps a class (default: false).
+   * Fields are copied where the key and value kind still match; mount lifecycles re-run.
+   */
+  preserveHmrState?: boolean;
+  /**
+   * Track live Component and Behavior instances for getInstances()/inspect() and
+   * emit lifecycle events to subscribeInstances() (default: false). Enable before rendering.
+   */
+  devtools?: boolean;
   /** Global error handler for lifecycle errors. Defaults to console.error. */
   onError?: (error: unknown, context: MantleErrorContext) => void;
+  /** What happens to lifecycle errors (default: 'report'). Can be overridden per component in createComponent options. */
+  errorPolicy?: ErrorPolicy;
+  /** Receives a timed event for every lifecycle method, render and watch/effect run. Off by default. */
+  onTrace?: (event: MantleTraceEvent) => void;
 }
 
 export const globalConfig: MantleConfig = {
   autoObservable: true,
 };
 
-/** @internal Report a lifecycle error through the configured handler or console.error */
-export function reportError(error: unknown, context: MantleErrorContext): void {
+/** Per-component policies from createComponent options — no footprint on the instance */
+const errorPolicies = new WeakMap<object, ErrorPolicy>();
+
+/** @internal Set the error policy for a Component instance (and its behaviors) */
+export function setErrorPolicy(instance: object, policy: ErrorPolicy): void {
+  errorPolicies.set(instance, policy);
+}
+
+/**
+ * The Component an error belongs to. Duck-typed so this module stays free of
+ * component/behavior imports: a behavior's `host` getter throws until it is
+ * attached, and a subclass may shadow it with an unrelated field.
+ */
+function componentOf(source: ErrorSource): any {
+  if (!source.isBehavior) return source.instance;
+  try {
+    const host = (source.instance as any).host;
+    return typeof host?.getParent === 'function' ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+function describeError(source: ErrorSource): MantleErrorContext {
+  const component = componentOf(source);
+  const names: string[] = [];
+  for (let node = component; node; node = node.getParent()) names.unshift(node.constructor.name);
+  if (source.isBehavior) names.push(source.name);
+
+  let props: unknown;
+  try {
+    props = component?.props;
+  } catch {
+    // Failed before the props box was set up
+  }
+  return { ...source, component, path: names.join(' > '), props };
+}
+
+/** Errors held under 'rethrow' until something can throw them */
+const heldErrors: unknown[] = [];
+
+/** @internal Throw the first error held under 'rethrow', dropping any others behind it */
+export function rethrowHeldErrors(): void {
+  if (heldErrors.length === 0) return;
+  const [error] = heldErrors.splice(0);
+  throw error;
+}
+
+/**
+ * @internal Report a lifecycle error through the configured handler or console.error.
+ * Throws it instead under the 'rethrow' policy — or, with `held`, for errors raised
+ * where a throw can't reach anyone (MobX catches errors in reactions, and a task's
+ * promise must not reject), keeps it for rethrowHeldErrors(). Returns the policy that applied.
+ */
+export function reportError(error: unknown, source: ErrorSource, held = false): ErrorPolicy {
+  const context = describeError(source);
+  const policy = (context.component && errorPolicies.get(context.component)) ?? globalConfig.errorPolicy ?? 'report';
+  if (policy === 'rethrow') {
+    if (!held) throw error;
+    heldErrors.push(error);
+    // Nothing else may call in: throw it on its own so it still surfaces
+    if (heldErrors.length === 1) setTimeout(rethrowHeldErrors, 0);
+    return policy;
+  }
+
   if (globalConfig.onError) {
     globalConfig.onError(error, context);
   } else {
     console.error(
-      `[mobx-mantle] Error in ${context.isBehavior ? 'behavior' : 'component'} ${context.name}.${context.phase}():`,
+      `[mobx-mantle] Error in ${context.isBehavior ? 'behavior' : 'component'} ${context.name}.${context.phase}()` +
+      (context.path.includes(' > ') ? ` at ${context.path}:` : ':'),
       error,
     );
   }
+  return policy;
+}
+
+const now: () => number = typeof performance !== 'undefined' ? () => performance.now() : () => Date.now();
+
+/** @internal Run fn, reporting its duration through onTrace when one is configured */
+export function traced<T>(context: Omit<MantleTraceEvent, 'startTime' | 'duration'>, fn: () => T): T {
+  const { onTrace } = globalConfig;
+  if (!onTrace) return fn();
+  const startTime = now();
+  try {
+    return fn();
+  } finally {
+    try {
+      onTrace({ ...context, startTime, duration: now() - startTime });
+    } catch (e) {
+      console.error('[mobx-mantle] Error in onTrace:', e);
+    }
+  }
+}
+
+/** @internal Timer used for debounced watch/effect callbacks and Suspense cleanup. Swapped out by mobx-mantle/testing. */
+export const timers = {
+  setTimeout: (fn: () => void, ms: number): unknown => setTimeout(fn, ms),
+};
+
+/**
+ * @internal Build a MobX scheduler for the `delay` option. Equivalent to MobX's own
+ * `delay` handling, but routed through `timers` so tests can control it.
+ */
+export function delayScheduler(delay?: number): ((run: () => void) => void) | undefined {
+  if (!delay) return undefined;
+  return (run) => {
+    timers.setTimeout(run, delay);
+  };
 }
 
 /**
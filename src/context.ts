@@ -0,0 +1,128 @@
+import type { BehaviorEntry } from './behavior';
+import type { WatchOptions, EffectOptions } from './config';
+import type { InjectionToken } from './inject';
+import type { Task } from './task';
+import type { Resource, ResourceOptions } from './resource';
+
+/** @internal The instance a functional setup function is running against */
+export interface SetupContext {
+  watch<T>(
+    expr: () => T,
+    callback: (value: T, prevValue: T | undefined) => void,
+    options?: WatchOptions
+  ): () => void;
+  effect(fn: () => void | (() => void), options?: EffectOptions): () => void;
+  inject<T>(token: InjectionToken<T>): T;
+  task<T>(fn: (signal: AbortSignal) => Promise<T>): Task<T>;
+  resource<K, T>(
+    key: () => K,
+    fetcher: (key: K, signal: AbortSignal) => Promise<T>,
+    options?: ResourceOptions<T>
+  ): Resource<K, T>;
+  _behaviors?: BehaviorEntry[];
+  _watchDisposers: (() => void)[];
+  _watchRestarts: (() => void)[];
+}
+
+let currentContext: SetupContext | null = null;
+
+/** @internal Returns the active setup context, or null outside of defineView/defineBehavior setup */
+export function getSetupContext(): SetupContext | null {
+  return currentContext;
+}
+
+/** @internal Run fn with ctx as the active setup context (restores the previous one, so setups can nest) */
+export function runInSetupContext<T>(ctx: SetupContext, fn: () => T): T {
+  const prev = currentContext;
+  currentContext = ctx;
+  try {
+    return fn();
+  } finally {
+    currentContext = prev;
+  }
+}
+
+/**
+ * @internal Start a watcher (reaction, autorun, observer) owned by a Component or
+ * Behavior. Unmounting stops it through `_watchDisposers`; mounting again, as React's
+ * StrictMode does, starts it afresh with `restart` set. The returned function stops it for good.
+ */
+export function startWatcher(
+  owner: Pick<SetupContext, '_watchDisposers' | '_watchRestarts'>,
+  start: (restart: boolean) => () => void
+): () => void {
+  let stop: (() => void) | null = null;
+  const halt = () => {
+    stop?.();
+    stop = null;
+  };
+  const run = (restart: boolean) => {
+    if (stop) return;
+    stop = start(restart);
+    owner._watchDisposers.push(halt);
+  };
+  const restart = () => run(true);
+
+  run(false);
+  owner._watchRestarts.push(restart);
+  return () => {
+    halt();
+    const idx = owner._watchDisposers.indexOf(halt);
+    if (idx !== -1) owner._watchDisposers.splice(idx, 1);
+    const restartIdx = owner._watchRestarts.indexOf(restart);
+    if (restartIdx !== -1) owner._watchRestarts.splice(restartIdx, 1);
+  };
+}
+
+/** Callbacks waiting for an instance to become observable — no footprint on the object itself */
+const pendingInits = new WeakMap<object, (() => void)[]>();
+const initializedInstances = new WeakSet<object>();
+
+/**
+ * @internal Run fn once the instance is observable. Field initializers (and a
+ * behavior's onCreate) run before that, so reactions started there would not track.
+ */
+export function afterInit(instance: object, fn: () => void): void {
+  if (initializedInstances.has(instance)) {
+    fn();
+    return;
+  }
+  const pending = pendingInits.get(instance);
+  if (pending) pending.push(fn);
+  else pendingInits.set(instance, [fn]);
+}
+
+/** @internal Mark an instance observable and flush callbacks deferred with afterInit() */
+export function markInitialized(instance: object): void {
+  initializedInstances.add(instance);
+  const pending = pendingInits.get(instance);
+  if (!pending) return;
+  pendingInits.delete(instance);
+  for (const fn of pending) fn();
+}
+
+/** What each defineBehavior() setup returned, for snapshots to read through */
+const setupStates = new WeakMap<object, object>();
+/** Refs made by ref(), as opposed to read-only computed() refs */
+const writableRefs = new WeakSet<object>();
+
+/** @internal Record the object a functional behavior's setup returned */
+export function setSetupState(instance: object, state: object): void {
+  setupStates.set(instance, state);
+}
+
+/** @internal The object a functional behavior's setup returned, if any */
+export function getSetupState(instance: object): object | undefined {
+  return setupStates.get(instance);
+}
+
+/** @internal Mark a ref() so snapshots can capture and restore its value */
+export function markWritableRef<T extends object>(ref: T): T {
+  writableRefs.add(ref);
+  return ref;
+}
+
+/** @internal Whether a value is a ref() (computed() refs are not) */
+export function isWritableRef(value: unknown): value is { value: unknown } {
+  return typeof value === 'object' && value !== null && writableRefs.has(value);
+}
@@ -9,7 +9,7 @@ export const ANNOTATIONS = Symbol('mantle:annotations');
 /**
  * Decorator context type for TC39 decorators
  */
-interface DecoratorContext {
+export interface DecoratorContext {
   kind: 'field' | 'method' | 'getter' | 'setter' | 'accessor' | 'class';
   name: string | symbol;
   metadata: Record<symbol, unknown>;
@@ -97,6 +97,35 @@ export function computed(_value: Function, context: DecoratorContext): void {
   setAnnotation(context, mobx.computed);
 }
 
+/**
+ * Symbol key for the set of fields left out of snapshots.
+ */
+export const TRANSIENT = Symbol('mantle:transient');
+
+/**
+ * Leaves a field out of getSnapshot()/applySnapshot() (and SSR hydration) — use it for
+ * caches, UI-only state or anything not worth persisting. It doesn't annotate the field:
+ * in auto-observable mode the field stays observable, but with decorators only annotated
+ * fields are, so pair it with `@observable` there.
+ *
+ * @example
+ * ```tsx
+ * class Search extends Component {
+ *   query = '';
+ *   @transient results: Result[] = [];
+ * }
+ *
+ * class AnnotatedSearch extends Component {
+ *   @observable query = '';
+ *   @observable @transient results: Result[] = [];
+ * }
+ * ```
+ */
+export function transient(_value: undefined, context: DecoratorContext): void {
+  context.metadata[TRANSIENT] ??= new Set<string | symbol>();
+  (context.metadata[TRANSIENT] as Set<string | symbol>).add(context.name);
+}
+
 /**
  * Retrieves the annotations stored in class metadata.
  * Used by createComponent() to apply MobX observability.
@@ -105,3 +134,11 @@ export function getAnnotations(instance: object): Record<string, any> | undefine
   const metadata = (instance.constructor as any)[Symbol.metadata];
   return metadata?.[ANNOTATIONS] as Record<string, any> | undefined;
 }
+
+/**
+ * Retrieves the fields marked @transient in class metadata.
+ */
+export function getTransientKeys(instance: object): Set<string | symbol> | undefined {
+  const metadata = (instance.constructor as any)[Symbol.metadata];
+  return metadata?.[TRANSIENT] as Set<string | symbol> | undefined;
+}
@@ -0,0 +1,104 @@
+import { isObservableProp, toJS } from 'mobx';
+import { Component, componentStateKeys } from './component';
+import { behaviorStateKeys, getBehaviorOwner, isBehavior } from './behavior';
+import {
+  type InstanceEvent,
+  type InstanceKind,
+  getRegistryEntry,
+  getRegisteredInstances,
+  addRegistryListener,
+} from './registry';
+
+export type { InstanceEvent, InstanceKind };
+
+/** What the inspector reports about a live instance */
+export interface InstanceInfo {
+  id: number;
+  /** Class name */
+  name: string;
+  kind: InstanceKind;
+  /** Id of the parent Component, or of the Component/Behavior owning a behavior */
+  parent: number | null;
+  /** Current props (Components only) */
+  props: unknown;
+  /** Observable field values as plain data. Behaviors are listed in `behaviors` instead. */
+  state: Record<string, unknown>;
+  /** Ids of attached behaviors */
+  behaviors: number[];
+  /** Active watch/effect/task disposers */
+  watchers: number;
+  mounted: boolean;
+  /** The instance itself, e.g. to poke at from the console */
+  instance: object;
+}
+
+function idOf(instance: object | null | undefined): number | null {
+  return (instance && getRegistryEntry(instance)?.id) ?? null;
+}
+
+function stateOf(instance: any, kind: InstanceKind): Record<string, unknown> {
+  const keys = kind === 'component' ? componentStateKeys(instance) : behaviorStateKeys(instance);
+  const state: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (!isObservableProp(instance, key)) continue;
+    const value = instance[key];
+    if (isBehavior(value)) continue;
+    state[key] = toJS(value);
+  }
+  return state;
+}
+
+function describe(instance: any): InstanceInfo | undefined {
+  const entry = getRegistryEntry(instance);
+  if (!entry) return undefined;
+  const { id, kind, mounted } = entry;
+  const parent = kind === 'component' ? (instance as Component<any>).getParent() : getBehaviorOwner(instance);
+  const behaviors: { instance: object }[] = Array.isArray(instance._behaviors) ? instance._behaviors : [];
+
+  return {
+    id,
+    name: instance.constructor.name,
+    kind,
+    parent: idOf(parent),
+    props: kind === 'component' ? instance.props : undefined,
+    state: stateOf(instance, kind),
+    behaviors: behaviors.map(behavior => idOf(behavior.instance)).filter((id): id is number => id !== null),
+    watchers: Array.isArray(instance._watchDisposers) ? instance._watchDisposers.length : 0,
+    mounted,
+    instance,
+  };
+}
+
+/**
+ * Every live Component and Behavior, in creation order. Requires `configure({ devtools: true })`
+ * before the instances are created.
+ *
+ * @example
+ * ```ts
+ * console.table(getInstances().map(({ id, name, parent, watchers }) => ({ id, name, parent, watchers })));
+ * ```
+ */
+export function getInstances(): InstanceInfo[] {
+  return getRegisteredInstances().map(instance => describe(instance)!);
+}
+
+/** Inspect a live instance, by object or id. Undefined if it isn't tracked (or no longer alive). */
+export function inspect(target: object | number): InstanceInfo | undefined {
+  if (typeof target === 'number') {
+    return getInstances().find(info => info.id === target);
+  }
+  return describe(target);
+}
+
+/**
+ * Receive create/mount/update/unmount events of tracked instances.
+ * Returns an unsubscribe function.
+ *
+ * @example
+ * ```ts
+ * subscribeInstances(({ type, name, id }) => console.debug(`${type} ${name}#${id}`));
+ * ```
+ */
+export function subscribeInstances(listener: (event: InstanceEvent) => void): () => void {
+  return addRegistryListener(listener);
+}
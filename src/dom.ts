@@ -0,0 +1,678 @@
+import { Reaction, untracked, type IObservableValue } from 'mobx';
+import { reportError, traced, type ErrorPolicy } from './config';
+import { Component, type PropsOf, type RegionRenderer, setEventHost } from './component';
+import { type LifecycleHost, createLifecycleHost } from './host';
+import type { Injector } from './inject';
+import { createRowIndexes, identityKey, type RowIndexes } from './keys';
+
+/** Groups children without a wrapper element */
+export const Fragment: unique symbol = Symbol('mobx-mantle.Fragment');
+
+/** A function returning markup, called inline on every render of the Component that uses it */
+export type Template<P = any> = (props: P) => VNode | null;
+
+/**
+ * A node of the tree `render()` returns. It has the shape of a React element
+ * (`type`, `props`, `key`), so one `render()` signature covers both backends.
+ */
+export interface VNode {
+  type: string | typeof Fragment | (new () => Component<any>) | Template;
+  props: Record<string, any>;
+  key: string | null;
+}
+
+/** Anything `h()` accepts as a child. Booleans, null and undefined render nothing. */
+export type Child = VNode | string | number | boolean | null | undefined | Child[];
+
+/**
+ * Create a VNode. Usable directly, or as the JSX factory with the classic runtime
+ * (`jsx: 'react'` with `jsxFactory: 'h'` and `jsxFragmentFactory: 'Fragment'`, or
+ * the `@jsxRuntime classic`, `@jsx h` and `@jsxFrag Fragment` pragmas per file).
+ *
+ * @example
+ * ```ts
+ * h('button', { onClick: this.increment }, 'Count: ', this.count)
+ * ```
+ */
+export function h(
+  type: VNode['type'],
+  props?: Record<string, any> | null,
+  // A function child is a render prop, e.g. For's row renderer
+  ...children: (Child | ((...args: any[]) => Child))[]
+): VNode {
+  const { key, ...rest } = props ?? {};
+  if (children.length > 0) rest.children = children.length === 1 ? children[0] : children;
+  return { type, props: rest, key: key == null ? null : String(key) };
+}
+
+// JSX types for the classic runtime, looked up on the factory as `h.JSX`
+export declare namespace h {
+  namespace JSX {
+    type Element = VNode;
+    interface ElementAttributesProperty {
+      props: {};
+    }
+    interface ElementChildrenAttribute {
+      children: {};
+    }
+    interface IntrinsicAttributes {
+      key?: string | number;
+    }
+    interface IntrinsicElements {
+      [tag: string]: Record<string, any>;
+    }
+  }
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** Element properties compared against the live DOM, since the user changes them */
+const LIVE_PROPS = new Set(['value', 'checked', 'selected']);
+
+/** What a child rendered to, kept between renders to patch against */
+type Rendered =
+  | { kind: 'text'; node: Text }
+  | { kind: 'element'; vnode: VNode; node: Element; children: Rendered[] }
+  | { kind: 'component'; vnode: VNode; view: View };
+
+/** A Component instance rendered into the DOM */
+interface View {
+  host: LifecycleHost<Component<any>>;
+  vm: Component<any>;
+  reaction: Reaction;
+  /** Rendered output, inserted before the anchor */
+  children: Rendered[];
+  /** Empty comment marking the end of the output, so the view can re-render in place */
+  anchor: Comment;
+  svg: boolean;
+  injector: Injector | null;
+  disposed: boolean;
+}
+
+/** Views created by the current render pass, child-first, waiting to mount once their DOM is in place */
+const pendingMounts: View[] = [];
+let renderDepth = 0;
+
+/** Run a render pass, then mount the views it created — like React's commit phase */
+function batchRender(fn: () => void): void {
+  renderDepth++;
+  try {
+    fn();
+  } finally {
+    renderDepth--;
+  }
+  if (renderDepth > 0) return;
+
+  const views = pendingMounts.splice(0).filter(view => !view.disposed);
+  for (const view of views) view.host.layoutMount();
+  for (const view of views) {
+    view.host.mount();
+    view.host.update();
+  }
+}
+
+function isComponentClass(type: unknown): type is new () => Component<any> {
+  return typeof type === 'function' && type.prototype instanceof Component;
+}
+
+/** Flatten fragments, arrays and templates into text and element/component VNodes */
+function flatten(child: Child, out: (string | VNode)[] = []): (string | VNode)[] {
+  if (child == null || typeof child === 'boolean') return out;
+  if (Array.isArray(child)) {
+    for (const item of child) flatten(item, out);
+  } else if (typeof child !== 'object') {
+    out.push(String(child));
+  } else if (child.type === Fragment) {
+    flatten(child.props.children, out);
+  } else if (typeof child.type === 'function' && !isComponentClass(child.type)) {
+    flatten((child.type as Template)(child.props), out);
+  } else {
+    out.push(child);
+  }
+  return out;
+}
+
+function sameType(rendered: Rendered, item: string | VNode): boolean {
+  if (typeof item === 'string') return rendered.kind === 'text';
+  return rendered.kind !== 'text' && rendered.vnode.type === item.type && rendered.vnode.key === item.key;
+}
+
+/** DOM nodes of a rendered child, in document order */
+function nodesOf(rendered: Rendered): Node[] {
+  return rendered.kind === 'component' ? viewNodes(rendered.view) : [rendered.node];
+}
+
+function viewNodes(view: View): Node[] {
+  return [...view.children.flatMap(nodesOf), view.anchor];
+}
+
+function setRef(ref: unknown, value: Element | null): void {
+  if (typeof ref === 'function') ref(value);
+  else if (ref && typeof ref === 'object') (ref as { current: unknown }).current = value;
+}
+
+function eventName(element: Element, prop: string): string {
+  const name = prop.slice(2).toLowerCase();
+  if (name === 'doubleclick') return 'dblclick';
+  // As in React: onChange fires on every keystroke for text inputs
+  if (name === 'change' && (element.tagName === 'TEXTAREA' ||
+    (element.tagName === 'INPUT' && !['checkbox', 'radio', 'file'].includes((element as HTMLInputElement).type)))) {
+    return 'input';
+  }
+  return name;
+}
+
+function setStyle(element: HTMLElement, prev: unknown, next: unknown): void {
+  const { style } = element;
+  if (typeof next === 'string' || next == null) {
+    style.cssText = next ?? '';
+    return;
+  }
+  const setProperty = (key: string, value: unknown) => {
+    if (key.startsWith('--')) style.setProperty(key, value == null ? '' : String(value));
+    else (style as any)[key] = value == null ? '' : value;
+  };
+  if (typeof prev === 'string') style.cssText = '';
+  else if (prev) for (const key of Object.keys(prev)) if (!(key in (next as object))) setProperty(key, null);
+  for (const [key, value] of Object.entries(next as object)) setProperty(key, value);
+}
+
+function setProp(element: Element, prop: string, prev: unknown, next: unknown, svg: boolean): void {
+  if (prop.startsWith('on') && (typeof prev === 'function' || typeof next === 'function')) {
+    const name = eventName(element, prop);
+    if (typeof prev === 'function') element.removeEventListener(name, prev as EventListener);
+    if (typeof next === 'function') element.addEventListener(name, next as EventListener);
+  } else if (prop === 'style') {
+    setStyle(element as HTMLElement, prev, next);
+  } else if (LIVE_PROPS.has(prop) && !svg) {
+    const value = prop === 'value' ? String(next ?? '') : Boolean(next);
+    if ((element as any)[prop] !== value) (element as any)[prop] = value;
+  } else {
+    const name = prop === 'className' ? 'class' : prop === 'htmlFor' ? 'for' : prop;
+    if (next == null || next === false) element.removeAttribute(name);
+    else element.setAttribute(name, next === true ? '' : String(next));
+  }
+}
+
+/**
+ * Patch attributes, styles and listeners. Live props are left to patchLiveProps(),
+ * which runs once the children are in place.
+ */
+function patchProps(element: Element, prev: Record<string, any>, next: Record<string, any>, svg: boolean): void {
+  const skip = (prop: string) => prop === 'children' || prop === 'ref' || (LIVE_PROPS.has(prop) && !svg);
+  for (const prop of Object.keys(prev)) {
+    if (skip(prop) || prop in next) continue;
+    setProp(element, prop, prev[prop], undefined, svg);
+  }
+  // `type` first: it decides how an input takes `value`/`checked`, and which event onChange is
+  const props = Object.keys(next).sort((a, b) => Number(b === 'type') - Number(a === 'type'));
+  for (const prop of props) {
+    if (skip(prop)) continue;
+    if (prev[prop] !== next[prop]) setProp(element, prop, prev[prop], next[prop], svg);
+  }
+}
+
+/**
+ * Apply `value`/`checked`/`selected` against the live DOM. Runs after the children
+ * are patched: a `<select>` can only take a value once its `<option>`s exist.
+ */
+function patchLiveProps(element: Element, prev: Record<string, any>, next: Record<string, any>, svg: boolean): void {
+  if (svg) return;
+  for (const prop of LIVE_PROPS) {
+    if (prop in next || prop in prev) setProp(element, prop, prev[prop], next[prop], svg);
+  }
+}
+
+function create(item: string | VNode, svg: boolean, owner: View): Rendered {
+  if (typeof item === 'string') return { kind: 'text', node: document.createTextNode(item) };
+
+  if (isComponentClass(item.type)) {
+    return { kind: 'component', vnode: item, view: createView(item.type, item.props, owner.vm, owner.injector, svg, {}) };
+  }
+
+  const tag = item.type as string;
+  const inSvg = svg || tag === 'svg';
+  const node = inSvg ? document.createElementNS(SVG_NS, tag) : document.createElement(tag);
+  patchProps(node, {}, item.props, inSvg);
+  const children = patchChildren(node, [], flatten(item.props.children), null, inSvg && tag !== 'foreignObject', owner);
+  patchLiveProps(node, {}, item.props, inSvg);
+  setRef(item.props.ref, node);
+  return { kind: 'element', vnode: item, node, children };
+}
+
+function update(rendered: Rendered, item: string | VNode, svg: boolean, owner: View): void {
+  if (rendered.kind === 'text') {
+    if (rendered.node.data !== item) rendered.node.data = item as string;
+    return;
+  }
+  const vnode = item as VNode;
+  const prev = rendered.vnode;
+  rendered.vnode = vnode;
+
+  if (rendered.kind === 'component') {
+    updateView(rendered.view, vnode.props);
+    return;
+  }
+
+  const tag = vnode.type as string;
+  const inSvg = svg || tag === 'svg';
+  patchProps(rendered.node, prev.props, vnode.props, inSvg);
+  rendered.children = patchChildren(rendered.node, rendered.children, flatten(vnode.props.children), null, inSvg && tag !== 'foreignObject', owner);
+  patchLiveProps(rendered.node, prev.props, vnode.props, inSvg);
+  if (prev.props.ref !== vnode.props.ref) {
+    setRef(prev.props.ref, null);
+    setRef(vnode.props.ref, rendered.node);
+  }
+}
+
+/** Unmount the views in a removed subtree and clear its refs. Leaves the DOM to the caller. */
+function teardown(rendered: Rendered): void {
+  if (rendered.kind === 'text') return;
+  if (rendered.kind === 'component') {
+    destroyView(rendered.view);
+    return;
+  }
+  setRef(rendered.vnode.props.ref, null);
+  rendered.children.forEach(teardown);
+}
+
+/**
+ * Patch the children of `parent` (the ones before `anchor`) from `old` to `items`.
+ * Keyed children are matched by key, the rest by type in order.
+ */
+function patchChildren(
+  parent: Node,
+  old: Rendered[],
+  items: (string | VNode)[],
+  anchor: Node | null,
+  svg: boolean,
+  owner: View
+): Rendered[] {
+  const keyed = new Map<string, Rendered>();
+  const unkeyed: Rendered[] = [];
+  for (const rendered of old) {
+    if (rendered.kind !== 'text' && rendered.vnode.key !== null) keyed.set(rendered.vnode.key, rendered);
+    else unkeyed.push(rendered);
+  }
+
+  const next = items.map(item => {
+    let match: Rendered | undefined;
+    if (typeof item !== 'string' && item.key !== null) {
+      match = keyed.get(item.key);
+      if (match && sameType(match, item)) keyed.delete(item.key);
+      else match = undefined;
+    } else {
+      const index = unkeyed.findIndex(rendered => sameType(rendered, item));
+      if (index !== -1) match = unkeyed.splice(index, 1)[0];
+    }
+    if (!match) return create(item, svg, owner);
+    update(match, item, svg, owner);
+    return match;
+  });
+
+  for (const rendered of [...keyed.values(), ...unkeyed]) {
+    teardown(rendered);
+    for (const node of nodesOf(rendered)) node.parentNode?.removeChild(node);
+  }
+
+  // Walk backwards, moving nodes only where they're out of place
+  let before = anchor;
+  for (let i = next.length - 1; i >= 0; i--) {
+    const nodes = nodesOf(next[i]);
+    for (let j = nodes.length - 1; j >= 0; j--) {
+      const node = nodes[j];
+      if (node.parentNode !== parent || node.nextSibling !== before) parent.insertBefore(node, before);
+      before = node;
+    }
+  }
+  return next;
+}
+
+function renderView(view: View): void {
+  const { vm } = view;
+  const name = vm.constructor.name;
+  let output: Child = null;
+  let error: { value: unknown } | undefined;
+
+  // Only the render call is tracked, as with useObserver
+  view.reaction.track(() => {
+    try {
+      output = traced({ phase: 'render', name, isBehavior: false }, () => vm.render!() as VNode | null);
+    } catch (e) {
+      error = { value: e };
+    }
+  });
+  // A failed render keeps the previous output on screen
+  if (error) {
+    reportError(error.value, { phase: 'render', name, isBehavior: false, instance: vm });
+    return;
+  }
+
+  batchRender(() => {
+    view.children = patchChildren(view.anchor.parentNode!, view.children, flatten(output), view.anchor, view.svg, view);
+  });
+}
+
+function createView(
+  ComponentClass: new () => Component<any>,
+  props: object,
+  parent: Component<any> | null,
+  injector: Injector | null,
+  svg: boolean,
+  options: { autoObservable?: boolean; errorPolicy?: ErrorPolicy },
+  element?: EventTarget
+): View {
+  const { autoObservable, errorPolicy } = options;
+  const host = createLifecycleHost(ComponentClass, props, { autoObservable, injector, parent, errorPolicy, region: renderRegion });
+  const { vm } = host;
+  if (element) setEventHost(vm, element);
+  if (!vm.render) {
+    throw new Error(`[mobx-mantle] ${ComponentClass.name}: Missing render() method.`);
+  }
+
+  // Output renders into a fragment until the caller moves it into place
+  const anchor = document.createComment('');
+  document.createDocumentFragment().appendChild(anchor);
+
+  const view: View = {
+    host,
+    vm,
+    reaction: new Reaction(`${ComponentClass.name}.render`, () => {
+      if (view.disposed) return;
+      renderView(view);
+      host.update();
+    }),
+    children: [],
+    anchor,
+    svg,
+    injector,
+    disposed: false,
+  };
+  renderView(view);
+  pendingMounts.push(view);
+  return view;
+}
+
+/** New props from the parent's render. Observers (including render) see the change. */
+function updateView(view: View, props: Record<string, any>): void {
+  view.host.setProps(props);
+}
+
+function destroyView(view: View): void {
+  if (view.disposed) return;
+  view.disposed = true;
+  view.reaction.dispose();
+  view.host.unmount();
+  view.children.forEach(teardown);
+}
+
+/**
+ * A Component rendered by {@link mount}
+ */
+export interface MountedComponent<C extends Component<any>> {
+  /** The ViewModel instance */
+  vm: C;
+  /** Merge new props into the current props and notify observers (re-rendering if render reads them) */
+  setProps(props: Partial<PropsOf<C>>): void;
+  /** Run cleanups and onUnmount for the whole tree, and remove its DOM */
+  unmount(): void;
+}
+
+/** Output of `this.region()`: a child view, so only it re-renders when what it reads changes */
+class Region extends Component<{ render: () => VNode | null }> {
+  render() {
+    return this.props.render();
+  }
+}
+
+const renderRegion: RegionRenderer = (_vm, render) => h(Region, { render });
+
+/** Props for {@link For} */
+export interface ForProps<T> {
+  /**
+   * The list, or a function returning it. Either way it is iterated inside `<For>`,
+   * so adding, removing or moving items doesn't re-render the Component around it.
+   */
+  each: readonly T[] | (() => readonly T[]);
+  /** Stable key per item (`key` itself is reserved by JSX). Defaults to object identity. */
+  keyBy?: (item: T, index: number) => string | number;
+  /**
+   * Renders one row. Runs in the row's own render, so a row re-renders alone when what it reads changes.
+   * `index()` reads the row's position: only rows that call it re-render when items before them move.
+   */
+  children: (item: T, index: () => number) => Child;
+  /** Shown when the list is empty */
+  fallback?: Child;
+}
+
+/**
+ * One row of a For: re-renders when its item changes or when observables it read
+ * change. The render function is read from the list untracked and the index through
+ * a box, so a shifted position or a new inline render function doesn't re-render every row.
+ */
+class ForRow extends Component<{ item: unknown; index: IObservableValue<number>; list: For<any> }> {
+  render() {
+    const { item, index, list } = this.props;
+    const render = untracked(() => list.props.children);
+    return h(Fragment, null, render(item, () => index.get()));
+  }
+}
+
+/** Row positions per For — no footprint on the observable instance */
+const rowIndexes = new WeakMap<For<any>, RowIndexes>();
+
+/**
+ * Render an observable list by key. `<For>` subscribes to the list itself, so only
+ * inserted, removed and moved rows render, and keyed rows (including the Components
+ * they render, with their ViewModels) are kept across reorders.
+ *
+ * @example
+ * ```ts
+ * h('ul', null,
+ *   h(For, { each: () => this.todos, keyBy: todo => todo.id }, (todo: Todo) => h(TodoItem, { todo })),
+ * )
+ * ```
+ */
+export class For<T> extends Component<ForProps<T>> {
+  render() {
+    const { each, keyBy, fallback } = this.props;
+    const items = typeof each === 'function' ? each() : each;
+    if (items.length === 0) return h(Fragment, null, fallback);
+    let indexes = rowIndexes.get(this);
+    if (!indexes) rowIndexes.set(this, (indexes = createRowIndexes()));
+    return h(Fragment, null, items.map((item, index) => {
+      const key = keyBy ? keyBy(item, index) : identityKey(item);
+      return h(ForRow, { key, item, index: indexes.get(key, index), list: this });
+    }));
+  }
+
+  onUpdate() {
+    rowIndexes.get(this)?.commit();
+  }
+}
+
+/** Options for {@link mount} and {@link defineElement} */
+export interface MountOptions {
+  autoObservable?: boolean;
+  /** Values for `this.inject()` in this Component and the ones it renders */
+  injector?: Injector;
+  errorPolicy?: ErrorPolicy;
+}
+
+function renderRoot<C extends Component<any>>(
+  ComponentClass: new () => C,
+  container: Element | DocumentFragment,
+  props: PropsOf<C>,
+  options: MountOptions,
+  element?: EventTarget
+): MountedComponent<C> {
+  const svg = (container as Element).namespaceURI === SVG_NS;
+  let view!: View;
+  batchRender(() => {
+    view = createView(ComponentClass, props, null, options.injector ?? null, svg, options, element);
+    for (const node of viewNodes(view)) container.appendChild(node);
+  });
+
+  return {
+    vm: view.vm as C,
+    setProps(next) {
+      if (view.disposed) return;
+      updateView(view, { ...view.vm.props, ...next });
+    },
+    unmount() {
+      if (view.disposed) return;
+      destroyView(view);
+      for (const node of viewNodes(view)) node.parentNode?.removeChild(node);
+    },
+  };
+}
+
+/**
+ * Render a Component into a DOM element without React. The instance is set up as
+ * createComponent does (props, behaviors, auto-observable, `onCreate`), `render()`
+ * returns markup built with {@link h}, and the output re-renders whenever the
+ * observables it read change. `onLayoutMount`/`onMount` run once the DOM is in
+ * place, `onUpdate` after each re-render. Components used as tags inside
+ * `render()` become child components, with `getParent()` and `inject()` wired up.
+ *
+ * @example
+ * ```ts
+ * const widget = mount(Signup, document.getElementById('signup')!, { plan: 'pro' });
+ * widget.setProps({ plan: 'team' });
+ * widget.unmount();
+ * ```
+ */
+export function mount<C extends Component<any>>(
+  ComponentClass: new () => C,
+  element: Element | DocumentFragment,
+  props: PropsOf<C> = {} as PropsOf<C>,
+  options: MountOptions = {}
+): MountedComponent<C> {
+  return renderRoot(ComponentClass, element, props, options);
+}
+
+/** Converts an attribute value (null when absent) to a prop */
+export type AttributeType = StringConstructor | NumberConstructor | BooleanConstructor;
+
+/** Options for {@link defineElement} */
+export interface ElementOptions<P> extends MountOptions {
+  /** Props that can be set from HTML attributes, with how to coerce them. `maxItems` reads the `max-items` attribute. */
+  attributes?: { [K in keyof P]?: AttributeType };
+  /** Props settable only as element properties, e.g. objects and callbacks */
+  properties?: (keyof P & string)[];
+  /** Render into a shadow root (`true` for `{ mode: 'open' }`) instead of the element's children */
+  shadow?: boolean | ShadowRootInit;
+}
+
+function attributeName(prop: string): string {
+  return prop.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+}
+
+function coerce(type: AttributeType, value: string | null): unknown {
+  if (type === Boolean) return value !== null;
+  if (value === null) return undefined;
+  return type === Number ? Number(value) : value;
+}
+
+/** Per-element state, kept off the element so it can't collide with prop accessors */
+interface ElementState {
+  props: Record<string, unknown>;
+  mounted?: MountedComponent<any>;
+}
+
+const elementStates = new WeakMap<HTMLElement, ElementState>();
+
+/**
+ * Register a Component as a Custom Element, for use from plain HTML or any
+ * framework. Declared attributes and properties become props. Connecting the
+ * element mounts the Component (running `onMount` and its behaviors'), and
+ * disconnecting it unmounts it — moving the element within the page keeps the
+ * instance. `this.emit('change', value)` dispatches a `change` CustomEvent with
+ * `detail: value` on the element.
+ *
+ * @example
+ * ```ts
+ * defineElement('x-todo', Todo, {
+ *   attributes: { title: String, maxItems: Number, compact: Boolean },
+ *   properties: ['items'],
+ *   shadow: true,
+ * });
+ * // <x-todo title="Groceries" max-items="10"></x-todo>
+ * ```
+ */
+export function defineElement<C extends Component<any>>(
+  tag: string,
+  ComponentClass: new () => C,
+  options: ElementOptions<PropsOf<C>> = {}
+): CustomElementConstructor {
+  const { attributes = {}, properties = [], shadow = false } = options;
+  const attributeProps = new Map(Object.keys(attributes).map(prop => [attributeName(prop), prop]));
+
+  class MantleElement extends HTMLElement {
+    static observedAttributes = [...attributeProps.keys()];
+
+    attributeChangedCallback(name: string, _prev: string | null, value: string | null) {
+      const prop = attributeProps.get(name)!;
+      setElementProp(this, prop, coerce((attributes as Record<string, AttributeType>)[prop], value));
+    }
+
+    connectedCallback() {
+      const state = stateOf(this);
+      if (state.mounted) return;
+      // Properties set before the element was upgraded shadow the accessors below
+      for (const prop of properties) {
+        if (Object.prototype.hasOwnProperty.call(this, prop)) {
+          const value = (this as any)[prop];
+          delete (this as any)[prop];
+          setElementProp(this, prop, value);
+        }
+      }
+      const root = shadow ? this.shadowRoot ?? this.attachShadow(shadow === true ? { mode: 'open' } : shadow) : this;
+      state.mounted = renderRoot(ComponentClass, root, { ...state.props } as PropsOf<C>, options, this);
+    }
+
+    disconnectedCallback() {
+      // A move disconnects and reconnects in the same task: keep the instance
+      queueMicrotask(() => {
+        const state = stateOf(this);
+        if (this.isConnected || !state.mounted) return;
+        state.mounted.unmount();
+        state.mounted = undefined;
+      });
+    }
+  }
+
+  for (const prop of new Set([...Object.keys(attributes), ...properties])) {
+    Object.defineProperty(MantleElement.prototype, prop, {
+      get(this: HTMLElement) {
+        return stateOf(this).props[prop];
+      },
+      set(this: HTMLElement, value: unknown) {
+        setElementProp(this, prop, value);
+      },
+      configurable: true,
+    });
+  }
+
+  if (customElements.get(tag)) {
+    throw new Error(`[mobx-mantle] defineElement: <${tag}> is already defined.`);
+  }
+  customElements.define(tag, MantleElement);
+  return MantleElement;
+}
+
+function stateOf(element: HTMLElement): ElementState {
+  let state = elementStates.get(element);
+  if (!state) {
+    state = { props: {} };
+    elementStates.set(element, state);
+  }
+  return state;
+}
+
+function setElementProp(element: HTMLElement, prop: string, value: unknown): void {
+  const state = stateOf(element);
+  if (state.props[prop] === value) return;
+  state.props = { ...state.props, [prop]: value };
+  state.mounted?.setProps(state.props);
+}
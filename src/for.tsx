@@ -0,0 +1,72 @@
+import { memo, useRef, useState, type JSX, type Key, type MutableRefObject, type ReactNode } from 'react';
+import type { IObservableValue } from 'mobx';
+import { useObserver } from 'mobx-react-lite';
+import { createRowIndexes, identityKey } from './keys';
+import { useIsomorphicLayoutEffect } from './mantle';
+
+/** Props for {@link For} */
+export interface ForProps<T> {
+  /**
+   * The list, or a function returning it. Either way it is iterated inside `<For>`,
+   * so adding, removing or moving items doesn't re-render the Component around it.
+   */
+  each: readonly T[] | (() => readonly T[]);
+  /** Stable key per item (`key` itself is reserved by JSX). Defaults to object identity. */
+  keyBy?: (item: T, index: number) => Key;
+  /**
+   * Renders one row. Runs in the row's own observer, so a row re-renders alone when what it reads changes.
+   * `index()` reads the row's position: only rows that call it re-render when items before them move.
+   */
+  children: (item: T, index: () => number) => ReactNode;
+  /** Shown when the list is empty */
+  fallback?: ReactNode;
+}
+
+interface RowProps {
+  item: unknown;
+  index: IObservableValue<number>;
+  render: MutableRefObject<(item: any, index: () => number) => ReactNode>;
+}
+
+/**
+ * One row: re-renders when its item changes or when observables it read change.
+ * The index and render function are read through a box and a ref, so a shifted
+ * position or a new inline render function doesn't re-render every row.
+ */
+const ForRow = memo(function ForRow({ item, index, render }: RowProps) {
+  return useObserver(() => <>{render.current(item, () => index.get())}</>);
+});
+
+/**
+ * Render an observable list by key. `<For>` subscribes to the list itself, so only
+ * inserted, removed and moved rows render, and keyed rows (including the Components
+ * they render, with their ViewModels) are kept across reorders.
+ *
+ * @example
+ * ```tsx
+ * <ul>
+ *   <For each={() => this.todos} keyBy={todo => todo.id} fallback={<li>Nothing to do</li>}>
+ *     {(todo, index) => <TodoItem todo={todo} position={index() + 1} />}
+ *   </For>
+ * </ul>
+ * ```
+ */
+export function For<T>({ each, keyBy, children, fallback = null }: ForProps<T>): JSX.Element {
+  const render = useRef(children);
+  render.current = children;
+  const [indexes] = useState(createRowIndexes);
+  useIsomorphicLayoutEffect(() => indexes.commit());
+
+  return useObserver(() => {
+    const items = typeof each === 'function' ? each() : each;
+    if (items.length === 0) return <>{fallback}</>;
+    return (
+      <>
+        {items.map((item, index) => {
+          const key = keyBy ? keyBy(item, index) : identityKey(item);
+          return <ForRow key={key} item={item} index={indexes.get(key, index)} render={render} />;
+        })}
+      </>
+    );
+  });
+}
@@ -0,0 +1,325 @@
+import { action, comparer, toJS } from 'mobx';
+import { Behavior, createBehavior } from './behavior';
+import { afterInit } from './context';
+import type { Task } from './task';
+
+/** An error message, or a falsy value when the value is valid */
+export type ValidationResult = string | null | undefined | false;
+
+/** Synchronous validator, receiving the field's value and all form values */
+export type Validator<V, T> = (value: V, values: T) => ValidationResult;
+
+/** Asynchronous validator. The signal aborts when the value changes again or the host unmounts. */
+export type AsyncValidator<V, T> = (value: V, values: T, signal: AbortSignal) => Promise<ValidationResult>;
+
+/** Definition of one form field */
+export interface FieldDefinition<V, T> {
+  /** Initial value, also what reset() and `dirty` compare against */
+  initial: V;
+  /** Synchronous validators, run in order — the first message wins */
+  validate?: Validator<V, T> | Validator<V, T>[];
+  /** Runs after the sync validators pass, debounced by the form's `asyncDelay` */
+  validateAsync?: AsyncValidator<V, T>;
+}
+
+/** Field definitions, keyed by field name */
+export type FieldDefinitions<T> = { [K in keyof T]: FieldDefinition<T[K], T> };
+
+/** Options for withForm */
+export interface FormOptions<T> {
+  fields: FieldDefinitions<T>;
+  /** Called by submit() when the form is valid. The signal aborts if the host unmounts. */
+  onSubmit?: (values: T, signal: AbortSignal) => void | Promise<void>;
+  /** Wait N milliseconds after the last change before running async validators (default: 300) */
+  asyncDelay?: number;
+}
+
+/** Props for an input, returned by `form.field(name)` */
+export interface FieldBinding<V> {
+  name: string;
+  value: V;
+  /** Accepts the new value, or a change event (checkboxes use `checked`) */
+  onChange: (valueOrEvent: V | { target: unknown }) => void;
+  onBlur: () => void;
+}
+
+type Values = Record<string, unknown>;
+
+interface FormState {
+  options: FormOptions<any>;
+  names: string[];
+  /** In-flight async validation per field, with the value it checks */
+  checks: Map<string, { value: unknown; task: Task<ValidationResult>; done: Promise<void> }>;
+  /** Value each field's async validator last passed judgement on */
+  checked: Map<string, unknown>;
+  /** Cached input handlers, so bindings keep a stable identity across renders */
+  handlers: Map<string, Pick<FieldBinding<unknown>, 'onChange' | 'onBlur'>>;
+}
+
+/** Form bookkeeping — kept off the behavior so auto-observable doesn't convert tasks and handlers */
+const forms = new WeakMap<FormBehavior<any>, FormState>();
+
+function mapFields<R>(names: string[], fn: (name: string) => R): Record<string, R> {
+  return Object.fromEntries(names.map(name => [name, fn(name)]));
+}
+
+/** First sync validator message. A plain function, so `errors` can call it from a tracked getter. */
+function syncError(form: FormBehavior<any>, name: string): string | undefined {
+  const { validate } = forms.get(form)!.options.fields[name];
+  if (!validate) return undefined;
+  for (const validator of Array.isArray(validate) ? validate : [validate]) {
+    const message = validator(form.values[name], form.values);
+    if (message) return message;
+  }
+  return undefined;
+}
+
+/** The value of a change event's target, or the value itself */
+function readValue(valueOrEvent: unknown): unknown {
+  if (valueOrEvent === null || typeof valueOrEvent !== 'object' || !('target' in valueOrEvent)) {
+    return valueOrEvent;
+  }
+  const target = valueOrEvent.target as { type?: string; value?: unknown; checked?: boolean };
+  return target.type === 'checkbox' ? target.checked : target.value;
+}
+
+class FormBehavior<T extends Values> extends Behavior {
+  /** Current field values */
+  values!: T;
+  /** What each field is compared against for `dirty` and restored to by reset() */
+  initialValues!: T;
+  /** Fields the user has left (blurred), or all of them after submit() */
+  touched!: Record<keyof T, boolean>;
+  /** Fields whose async validator is pending or running */
+  validating!: Record<keyof T, boolean>;
+  /** True while onSubmit runs */
+  isSubmitting = false;
+  /** Number of submit() calls */
+  submitCount = 0;
+
+  private asyncErrors!: Partial<Record<keyof T, string>>;
+
+  onCreate(options: FormOptions<T>) {
+    const names = Object.keys(options.fields);
+    forms.set(this, { options, names, checks: new Map(), checked: new Map(), handlers: new Map() });
+
+    this.initialValues = mapFields(names, name => options.fields[name].initial) as T;
+    this.values = { ...this.initialValues };
+    this.touched = mapFields(names, () => false) as Record<keyof T, boolean>;
+    this.validating = mapFields(names, () => false) as Record<keyof T, boolean>;
+    this.asyncErrors = {};
+
+    // Fields are observable only after construction
+    afterInit(this, () => {
+      for (const name of names) {
+        this.watch(() => this.values[name], () => this.invalidate(name));
+        if (options.fields[name].validateAsync) {
+          this.watch(() => this.values[name], () => this.check(name), { delay: options.asyncDelay ?? 300 });
+        }
+      }
+    });
+  }
+
+  /** Error message per field: the first failing sync validator, else the async validator's or setError()'s */
+  get errors(): Partial<Record<keyof T, string>> {
+    const errors: Partial<Record<keyof T, string>> = {};
+    for (const name of forms.get(this)!.names) {
+      const message = syncError(this, name) ?? this.asyncErrors[name];
+      if (message) errors[name as keyof T] = message;
+    }
+    return errors;
+  }
+
+  /** Whether any field differs from its initial value */
+  get dirty(): boolean {
+    return forms.get(this)!.names.some(name =>
+      !comparer.structural(this.values[name], this.initialValues[name])
+    );
+  }
+
+  get isValidating(): boolean {
+    return Object.values(this.validating).some(Boolean);
+  }
+
+  /** No errors, and no async validation outstanding */
+  get isValid(): boolean {
+    return Object.keys(this.errors).length === 0 && !this.isValidating;
+  }
+
+  /**
+   * Props binding an input to a field. A plain function rather than a method: methods
+   * become actions, and actions are untracked, so render would not see `value` change.
+   *
+   * @example
+   * ```tsx
+   * <input {...this.form.field('email')} />
+   * ```
+   */
+  field = <K extends keyof T & string>(name: K): FieldBinding<T[K]> => {
+    const { handlers } = forms.get(this)!;
+    let handler = handlers.get(name);
+    if (!handler) {
+      handler = {
+        onChange: (valueOrEvent) => this.setValue(name, readValue(valueOrEvent) as T[K]),
+        onBlur: () => this.setTouched(name),
+      };
+      handlers.set(name, handler);
+    }
+    return { name, value: this.values[name], ...handler };
+  };
+
+  setValue<K extends keyof T>(name: K, value: T[K]) {
+    this.values[name] = value;
+  }
+
+  setTouched(name: keyof T, touched = true) {
+    this.touched[name] = touched;
+  }
+
+  /** Set an error from outside, e.g. returned by the server. Cleared when the field changes. */
+  setError(name: keyof T, message: string | undefined) {
+    this.asyncErrors[name] = message;
+  }
+
+  /** Touch every field and run outstanding async validators now. Resolves with `isValid`. */
+  validate(): Promise<boolean> {
+    const state = forms.get(this)!;
+    for (const name of state.names) this.touched[name as keyof T] = true;
+    const pending = state.names
+      .filter(name => state.options.fields[name].validateAsync)
+      .map(name => this.check(name));
+    return Promise.all(pending).then(() => this.isValid);
+  }
+
+  /**
+   * Validate, then call `onSubmit` with a plain copy of the values. Accepts a form
+   * event and prevents its default. Resolves with whether the form was submitted.
+   *
+   * @example
+   * ```tsx
+   * <form onSubmit={this.form.submit}>
+   * ```
+   */
+  submit(event?: { preventDefault(): void }): Promise<boolean> {
+    event?.preventDefault();
+    if (this.isSubmitting) return Promise.resolve(false);
+    this.isSubmitting = true;
+    this.submitCount++;
+
+    const { onSubmit } = forms.get(this)!.options;
+    return this.validate().then(action((valid: boolean) => {
+      if (!valid || !onSubmit) {
+        this.isSubmitting = false;
+        return valid;
+      }
+      const values = toJS(this.values);
+      const task = this.task(async (signal) => onSubmit(values, signal));
+      return task.promise.then(action(() => {
+        this.isSubmitting = false;
+        return !task.aborted && task.error === undefined;
+      }));
+    }));
+  }
+
+  /** Restore the initial values (or make `values` the new initial values) and clear touched and errors */
+  reset(values?: Partial<T>) {
+    const state = forms.get(this)!;
+    if (values) Object.assign(this.initialValues, values);
+    for (const name of state.names) {
+      const key = name as keyof T;
+      state.checks.get(name)?.task.abort();
+      this.values[key] = this.initialValues[key];
+      this.touched[key] = false;
+      this.validating[key] = false;
+      this.asyncErrors[key] = undefined;
+    }
+    state.checks.clear();
+    state.checked.clear();
+  }
+
+  /** The value changed: stale async results no longer apply */
+  private invalidate(name: string) {
+    const state = forms.get(this)!;
+    const key = name as keyof T;
+    this.asyncErrors[key] = undefined;
+    if (!state.options.fields[name].validateAsync) return;
+    state.checks.get(name)?.task.abort();
+    state.checks.delete(name);
+    state.checked.delete(name);
+    this.validating[key] = syncError(this, name) === undefined;
+  }
+
+  /** Run a field's async validator for its current value, unless that value is already checked or being checked */
+  private check(name: string): Promise<void> {
+    const state = forms.get(this)!;
+    const key = name as keyof T;
+    const value = this.values[name];
+    const running = state.checks.get(name);
+    if (running && comparer.structural(running.value, value)) return running.done;
+    if (state.checked.has(name) && comparer.structural(state.checked.get(name), value)) return Promise.resolve();
+
+    running?.task.abort();
+    // No request for values the sync validators already reject
+    if (syncError(this, name) !== undefined) {
+      state.checks.delete(name);
+      this.validating[key] = false;
+      return Promise.resolve();
+    }
+
+    const validator = state.options.fields[name].validateAsync!;
+    const task = this.task((signal) => validator(value, this.values, signal));
+    this.validating[key] = true;
+    const done = task.promise.then(action((message: ValidationResult | undefined) => {
+      // Superseded by a newer value, or aborted on unmount
+      if (state.checks.get(name)?.task !== task) return;
+      state.checks.delete(name);
+      this.validating[key] = false;
+      // A failing validator is reported, and doesn't block the form
+      if (task.aborted) return;
+      state.checked.set(name, toJS(value));
+      this.asyncErrors[key] = message || undefined;
+    }));
+    state.checks.set(name, { value: toJS(value), task, done });
+    return done;
+  }
+}
+
+const createForm = createBehavior(FormBehavior, { autoObservable: true });
+
+/**
+ * Form state for a Component or Behavior: values, validation, and dirty/touched
+ * tracking. Sync validators run on every change; async validators run once the
+ * value settles, and a newer value cancels a running check.
+ *
+ * @param options - `fields` (definitions keyed by name), `onSubmit`, `asyncDelay`
+ *
+ * @example
+ * ```tsx
+ * class Signup extends Component {
+ *   form = withForm({
+ *     fields: {
+ *       email: { initial: '', validate: v => !v.includes('@') && 'Enter an email' },
+ *       username: { initial: '', validateAsync: (v, _, signal) => api.checkName(v, signal) },
+ *     },
+ *     onSubmit: (values) => api.signup(values),
+ *   });
+ *
+ *   render() {
+ *     const { form } = this;
+ *     return (
+ *       <form onSubmit={form.submit}>
+ *         <input {...form.field('email')} />
+ *         {form.touched.email && form.errors.email}
+ *         <button disabled={form.isSubmitting}>Sign up</button>
+ *       </form>
+ *     );
+ *   }
+ * }
+ * ```
+ */
+export function withForm<T extends Values>(options: FormOptions<T>): Form<T> {
+  return createForm(options as FormOptions<any>) as Form<T>;
+}
+
+/** The behavior returned by withForm */
+export type Form<T extends Values> = FormBehavior<T>;
@@ -0,0 +1,383 @@
+import type { JSX } from 'react';
+import {
+  makeAutoObservable,
+  observable,
+  isObservableProp,
+  runInAction,
+  computed as mobxComputed,
+} from 'mobx';
+import { Component } from './component';
+import { Behavior, createBehavior, reportBehaviorError, type BehaviorFactory } from './behavior';
+import { createComponent } from './mantle';
+import { computed as computedDecorator, type DecoratorContext } from './decorators';
+import { getSetupContext, runInSetupContext, setSetupState, markWritableRef, type SetupContext } from './context';
+import { reportError, type MantleErrorContext, type WatchOptions, type EffectOptions } from './config';
+import type { InjectionToken } from './inject';
+import { trackLifecyclePromise, type Task } from './task';
+import type { Resource, ResourceOptions } from './resource';
+
+type LayoutMountFn = () => void | (() => void);
+/** Like a class `onMount`: may be async, and receives a signal that aborts on unmount */
+type MountFn = (signal: AbortSignal) => void | (() => void) | Promise<void>;
+
+/** Lifecycle callbacks registered during setup — no footprint on the instance itself */
+interface SetupHooks {
+  layoutMount: LayoutMountFn[];
+  mount: MountFn[];
+  update: (() => void)[];
+  unmount: (() => void)[];
+}
+
+const setupHooks = new WeakMap<object, SetupHooks>();
+
+function hooksFor(ctx: object): SetupHooks {
+  let hooks = setupHooks.get(ctx);
+  if (!hooks) {
+    hooks = { layoutMount: [], mount: [], update: [], unmount: [] };
+    setupHooks.set(ctx, hooks);
+  }
+  return hooks;
+}
+
+/** Report a setup hook error against the view or behavior that registered it */
+function reportHookError(self: object, phase: MantleErrorContext['phase'], error: unknown, held = false): void {
+  if (self instanceof Component) {
+    reportError(error, { phase, name: self.constructor.name, isBehavior: false, instance: self }, held);
+  } else {
+    reportBehaviorError(error, phase, self, held);
+  }
+}
+
+/**
+ * Run mount callbacks in order and combine their cleanups. A callback that throws is
+ * reported and the rest still run; under 'rethrow', the cleanups of the ones that
+ * already ran are called before the error propagates. Async callbacks (onMount only)
+ * have no cleanup, and their rejections are reported until `signal` aborts.
+ */
+function runMountHooks(
+  self: object,
+  phase: 'onLayoutMount' | 'onMount',
+  fns: (MountFn | LayoutMountFn)[] | undefined,
+  signal?: AbortSignal
+): (() => void) | undefined {
+  if (!fns?.length) return undefined;
+  const cleanups: (() => void)[] = [];
+  const cleanup = () => {
+    for (const fn of cleanups.splice(0)) fn();
+  };
+  for (const fn of fns) {
+    try {
+      const result = signal ? (fn as MountFn)(signal) : (fn as LayoutMountFn)();
+      const isAsync = signal !== undefined && trackLifecyclePromise(result, signal, (e) => reportHookError(self, phase, e, true));
+      if (!isAsync && typeof result === 'function') cleanups.push(result);
+    } catch (e) {
+      try {
+        reportHookError(self, phase, e);
+      } catch (rethrown) {
+        cleanup();
+        throw rethrown;
+      }
+    }
+  }
+  return cleanup;
+}
+
+function getContext(fnName: string): SetupContext {
+  const ctx = getSetupContext();
+  if (!ctx) {
+    throw new Error(
+      `[mobx-mantle] ${fnName}() must be called synchronously inside a defineView() or defineBehavior() setup function.`
+    );
+  }
+  return ctx;
+}
+
+// ─── State primitives ───
+
+/**
+ * Make an object deeply observable. Properties become observable, getters become
+ * computed, and methods become bound actions. Property sets are wrapped in
+ * `runInAction`, so standalone closures can mutate state under MobX strict mode.
+ *
+ * @example
+ * ```tsx
+ * const state = reactive({
+ *   count: 0,
+ *   get doubled() { return state.count * 2; },
+ * });
+ * const increment = () => state.count++;
+ * ```
+ */
+export function reactive<T extends object>(obj: T): T {
+  const obs = makeAutoObservable(obj, {}, { autoBind: true });
+
+  return new Proxy(obs, {
+    set(target, key, value) {
+      if (isObservableProp(target, key)) {
+        runInAction(() => {
+          (target as any)[key] = value;
+        });
+      } else {
+        (target as any)[key] = value;
+      }
+      return true;
+    },
+  });
+}
+
+/** A single observable value, read and written via `.value` */
+export interface Ref<T> {
+  value: T;
+}
+
+/** A derived value, read via `.value` */
+export interface ComputedRef<T> {
+  readonly value: T;
+}
+
+/**
+ * Make a single value observable. Access and mutate via `.value`.
+ *
+ * @example
+ * ```tsx
+ * const count = ref(0);
+ * count.value++;
+ * ```
+ */
+export function ref<T>(initial: T): Ref<T> {
+  const box = observable.box(initial);
+
+  return markWritableRef({
+    get value() {
+      return box.get();
+    },
+    set value(v: T) {
+      runInAction(() => box.set(v));
+    },
+  });
+}
+
+/**
+ * Create a cached derived value from a reactive expression. Access via `.value`.
+ * Also works as the `@computed` decorator on class getters.
+ *
+ * @example
+ * ```tsx
+ * const count = ref(0);
+ * const doubled = computed(() => count.value * 2);
+ * ```
+ */
+export function computed<T>(fn: () => T): ComputedRef<T>;
+export function computed(value: Function, context: DecoratorContext): void;
+export function computed(fn: Function, context?: DecoratorContext): ComputedRef<any> | void {
+  if (context) return computedDecorator(fn, context);
+
+  const c = mobxComputed(fn as () => any);
+  return {
+    get value() {
+      return c.get();
+    },
+  };
+}
+
+// ─── Setup functions ───
+
+/**
+ * Watch a reactive expression from a setup function. Auto-disposed on unmount.
+ * Same as `this.watch()` in the class API.
+ */
+export function watch<T>(
+  expr: () => T,
+  callback: (value: T, prevValue: T | undefined) => void,
+  options?: WatchOptions
+): () => void {
+  return getContext('watch').watch(expr, callback, options);
+}
+
+/**
+ * Run an auto-tracked side effect from a setup function. Auto-disposed on unmount.
+ * Same as `this.effect()` in the class API.
+ */
+export function effect(fn: () => void | (() => void), options?: EffectOptions): () => void {
+  return getContext('effect').effect(fn, options);
+}
+
+/**
+ * Start async work from a setup function, aborted on unmount.
+ * Same as `this.task()` in the class API.
+ */
+export function task<T>(fn: (signal: AbortSignal) => Promise<T>): Task<T> {
+  return getContext('task').task(fn);
+}
+
+/**
+ * Keyed async data from a setup function, re-fetched when the key changes.
+ * Same as `this.resource()` in the class API.
+ */
+export function resource<K, T>(
+  key: () => K,
+  fetcher: (key: K, signal: AbortSignal) => Promise<T>,
+  options?: ResourceOptions<T>
+): Resource<K, T> {
+  return getContext('resource').resource(key, fetcher, options);
+}
+
+/** Read a provided value from a setup function. Same as `this.inject()` in the class API. */
+export function inject<T>(token: InjectionToken<T>): T {
+  return getContext('inject').inject(token);
+}
+
+/**
+ * Register a callback for after paint. Return a cleanup function (optional), or make it
+ * async: it receives a signal that aborts on unmount, and rejections are reported.
+ */
+export function onMount(fn: MountFn): void {
+  hooksFor(getContext('onMount')).mount.push(fn);
+}
+
+/** Register a callback for before paint. Return a cleanup function (optional). */
+export function onLayoutMount(fn: LayoutMountFn): void {
+  hooksFor(getContext('onLayoutMount')).layoutMount.push(fn);
+}
+
+/** Register a callback for after every render. Views only. */
+export function onUpdate(fn: () => void): void {
+  const ctx = getContext('onUpdate');
+  if (!(ctx instanceof Component)) {
+    throw new Error('[mobx-mantle] onUpdate() is only available inside defineView().');
+  }
+  hooksFor(ctx).update.push(fn);
+}
+
+/** Register a callback for unmount, called after cleanups. */
+export function onUnmount(fn: () => void): void {
+  hooksFor(getContext('onUnmount')).unmount.push(fn);
+}
+
+/** Create a DOM ref from a setup function. Same as `this.ref()` in the class API. */
+export function domRef<T extends HTMLElement = HTMLElement>(): { current: T | null } {
+  const ctx = getContext('domRef');
+  return ctx instanceof Component ? ctx.ref<T>() : { current: null };
+}
+
+// ─── Definitions ───
+
+/**
+ * Create a component from a setup function. Setup runs once (as `onCreate`) and
+ * returns the render function. Produces the same React component as createComponent().
+ *
+ * @example
+ * ```tsx
+ * const Counter = defineView((props: { initial: number }) => {
+ *   const count = ref(props.initial);
+ *   const increment = () => count.value++;
+ *
+ *   onMount(() => console.log('mounted'));
+ *
+ *   return () => <button onClick={increment}>{count.value}</button>;
+ * });
+ * ```
+ */
+export function defineView<P = {}>(
+  setup: (props: P, self: Component<P>) => () => JSX.Element | null,
+  options?: { name?: string }
+) {
+  class FunctionalView extends Component<P> {
+    /** @internal */
+    _renderFn!: () => JSX.Element | null;
+
+    onCreate(props: P) {
+      this._renderFn = runInSetupContext(this, () => setup(props, this));
+    }
+
+    onLayoutMount() {
+      return runMountHooks(this, 'onLayoutMount', setupHooks.get(this)?.layoutMount);
+    }
+
+    onMount(signal: AbortSignal) {
+      return runMountHooks(this, 'onMount', setupHooks.get(this)?.mount, signal);
+    }
+
+    onUpdate() {
+      for (const fn of setupHooks.get(this)?.update ?? []) fn();
+    }
+
+    onUnmount() {
+      for (const fn of setupHooks.get(this)?.unmount ?? []) fn();
+    }
+
+    render() {
+      return this._renderFn();
+    }
+  }
+
+  Object.defineProperty(FunctionalView, 'name', { value: options?.name || setup.name || 'FunctionalView' });
+
+  return createComponent(FunctionalView);
+}
+
+/**
+ * Create a behavior factory from a setup function. The object returned by setup
+ * is exposed on the behavior instance, so consumers use it exactly like a
+ * createBehavior() behavior.
+ *
+ * @example
+ * ```tsx
+ * export const withWindowSize = defineBehavior((breakpoint = 768) => {
+ *   const state = reactive({
+ *     width: window.innerWidth,
+ *     get isMobile() { return state.width < breakpoint; },
+ *   });
+ *   const handleResize = () => { state.width = window.innerWidth; };
+ *
+ *   onMount(() => {
+ *     window.addEventListener('resize', handleResize);
+ *     return () => window.removeEventListener('resize', handleResize);
+ *   });
+ *
+ *   return state;
+ * });
+ * ```
+ */
+export function defineBehavior<Args extends any[], T extends object = {}>(
+  setup: (...args: Args) => T | void,
+  options?: { name?: string }
+): BehaviorFactory<Args, T> {
+  class FunctionalBehavior extends Behavior {
+    onCreate(...args: any[]) {
+      const api = runInSetupContext(this, () => setup(...(args as Args)));
+      if (!api) return;
+      setSetupState(this, api);
+
+      // Forward the setup result's members onto the instance (getOwnPropertyNames:
+      // MobX defines computeds as non-enumerable)
+      for (const key of Object.getOwnPropertyNames(api)) {
+        if (key in this) continue;
+        Object.defineProperty(this, key, {
+          enumerable: true,
+          configurable: true,
+          get: () => (api as any)[key],
+          set: (value) => {
+            (api as any)[key] = value;
+          },
+        });
+      }
+    }
+
+    onLayoutMount() {
+      return runMountHooks(this, 'onLayoutMount', setupHooks.get(this)?.layoutMount);
+    }
+
+    onMount(signal: AbortSignal) {
+      return runMountHooks(this, 'onMount', setupHooks.get(this)?.mount, signal);
+    }
+
+    onUnmount() {
+      for (const fn of setupHooks.get(this)?.unmount ?? []) fn();
+    }
+  }
+
+  Object.defineProperty(FunctionalBehavior, 'name', { value: options?.name || setup.name || 'FunctionalBehavior' });
+
+  return createBehavior(FunctionalBehavior) as unknown as BehaviorFactory<Args, T>;
+}
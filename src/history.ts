@@ -0,0 +1,326 @@
+import {
+  observe,
+  reaction,
+  runInAction,
+  createAtom,
+  set,
+  remove,
+  isObservableArray,
+  isObservableMap,
+  isObservableObject,
+  isObservableProp,
+  type IArrayDidChange,
+  type IMapDidChange,
+  type IObjectDidChange,
+} from 'mobx';
+import { Behavior, createBehavior, isBehavior, isRefLike, behaviorStateKeys } from './behavior';
+import { Component, componentStateKeys, isComponentRef } from './component';
+import { isInjected } from './inject';
+
+/** Options for withHistory */
+export interface HistoryOptions {
+  /** Maximum number of undo steps kept (default: 100) */
+  limit?: number;
+  /** Fields of the target that are never recorded */
+  exclude?: string[];
+}
+
+/** One recorded change, with how to revert and re-apply it */
+interface Patch {
+  undo(): void;
+  redo(): void;
+}
+
+/** Changes recorded during one action (one outermost MobX batch) */
+type Group = Patch[];
+
+interface HistoryState {
+  target: Component<any> | Behavior;
+  limit: number;
+  exclude: Set<string>;
+  past: Group[];
+  future: Group[];
+  pending: Group;
+  /** Replaying undo/redo, or inside ignore(): changes are not recorded */
+  paused: number;
+  /** Observed containers (arrays, Maps, plain objects) → disposer and reference count */
+  tracked: Map<object, { dispose: () => void; refs: number }>;
+}
+
+/** History bookkeeping — kept off the behavior so auto-observable doesn't deep-convert recorded values */
+const histories = new WeakMap<HistoryBehavior, HistoryState>();
+
+function isPlainObject(value: unknown): boolean {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/** Arrays, Maps and plain objects made observable by the target: recorded deeply */
+function isContainer(value: unknown): value is object {
+  return isObservableArray(value) || isObservableMap(value) ||
+    (isObservableObject(value) && isPlainObject(value));
+}
+
+/** Field values worth recording: data, not behaviors, refs, injected stores or class instances */
+function isRecordable(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'function') return false;
+  if (typeof value !== 'object') return true;
+  if (isBehavior(value) || isComponentRef(value) || isRefLike(value) || isInjected(value)) return false;
+  return isContainer(value) || Array.isArray(value) || isPlainObject(value);
+}
+
+class HistoryBehavior extends Behavior {
+  /** Number of steps undo() can revert */
+  undoCount = 0;
+  /** Number of steps redo() can re-apply */
+  redoCount = 0;
+
+  onCreate(target: Component<any> | Behavior, options: HistoryOptions = {}) {
+    if (!(target instanceof Component) && !isBehavior(target)) {
+      throw new Error('[mobx-mantle] withHistory: Expected a Component or Behavior, usually `withHistory(this)`.');
+    }
+    histories.set(this, {
+      target,
+      limit: options.limit ?? 100,
+      exclude: new Set(options.exclude),
+      past: [],
+      future: [],
+      pending: [],
+      paused: 0,
+      tracked: new Map(),
+    });
+  }
+
+  get canUndo() {
+    return this.undoCount > 0;
+  }
+
+  get canRedo() {
+    return this.redoCount > 0;
+  }
+
+  /** Revert the most recent action's changes */
+  undo() {
+    const state = histories.get(this)!;
+    const group = state.past.pop();
+    if (!group) return;
+    replay(state, () => {
+      for (let i = group.length - 1; i >= 0; i--) group[i].undo();
+    });
+    state.future.push(group);
+    this.syncCounts(state);
+  }
+
+  /** Re-apply the most recently undone action's changes */
+  redo() {
+    const state = histories.get(this)!;
+    const group = state.future.pop();
+    if (!group) return;
+    replay(state, () => {
+      for (const patch of group) patch.redo();
+    });
+    state.past.push(group);
+    this.syncCounts(state);
+  }
+
+  /** Forget all recorded steps */
+  clear() {
+    const state = histories.get(this)!;
+    state.past.length = 0;
+    state.future.length = 0;
+    this.syncCounts(state);
+  }
+
+  /** Run fn without recording its changes (e.g. loading data) */
+  ignore<T>(fn: () => T): T {
+    const state = histories.get(this)!;
+    state.paused++;
+    try {
+      return fn();
+    } finally {
+      state.paused--;
+    }
+  }
+
+  /** Record while mounted: observe the target's fields, and everything nested in them */
+  onMount() {
+    const state = histories.get(this)!;
+    const { target, exclude } = state;
+    const keys = new Set(
+      (target instanceof Component ? componentStateKeys(target) : behaviorStateKeys(target))
+        .filter(key => !exclude.has(key) && isObservableProp(target, key) && isRecordable((target as any)[key]))
+    );
+
+    // Closes the pending group at the end of each outermost batch, i.e. per action
+    const batchEnd = createAtom('withHistory');
+    let changes = 0;
+    const record = (patch: Patch) => {
+      if (state.paused > 0) return;
+      state.pending.push(patch);
+      changes++;
+      batchEnd.reportChanged();
+    };
+    const disposeGroups = reaction(
+      () => {
+        batchEnd.reportObserved();
+        return changes;
+      },
+      () => this.commit(state)
+    );
+
+    const disposeTarget = observe(target, (change: IObjectDidChange) => {
+      const key = String(change.name);
+      if (!keys.has(key) || change.type !== 'update') return;
+      untrack(state, change.oldValue);
+      track(state, change.newValue, record);
+      const { oldValue, newValue } = change;
+      record({
+        undo: () => { (target as any)[key] = oldValue; },
+        redo: () => { (target as any)[key] = newValue; },
+      });
+    });
+    for (const key of keys) track(state, (target as any)[key], record);
+
+    return () => {
+      disposeTarget();
+      disposeGroups();
+      for (const { dispose } of state.tracked.values()) dispose();
+      state.tracked.clear();
+      state.pending = [];
+    };
+  }
+
+  private commit(state: HistoryState) {
+    if (state.pending.length === 0) return;
+    state.past.push(state.pending);
+    state.pending = [];
+    if (state.past.length > state.limit) state.past.shift();
+    // A new change makes the undone steps unreachable
+    state.future.length = 0;
+    this.syncCounts(state);
+  }
+
+  private syncCounts(state: HistoryState) {
+    this.undoCount = state.past.length;
+    this.redoCount = state.future.length;
+  }
+}
+
+/** Apply recorded patches without recording them again */
+function replay(state: HistoryState, fn: () => void): void {
+  state.paused++;
+  try {
+    runInAction(fn);
+  } finally {
+    state.paused--;
+  }
+}
+
+/** Observe a container and its nested containers. Reference-counted, since a value can move. */
+function track(state: HistoryState, value: unknown, record: (patch: Patch) => void): void {
+  if (!isContainer(value)) return;
+  const existing = state.tracked.get(value);
+  if (existing) {
+    existing.refs++;
+    return;
+  }
+
+  const swap = (oldValue: unknown, newValue: unknown) => {
+    untrack(state, oldValue);
+    track(state, newValue, record);
+  };
+
+  let dispose: () => void;
+  if (isObservableArray(value)) {
+    const array = value;
+    dispose = observe(array, (change: IArrayDidChange) => {
+      if (change.type === 'splice') {
+        const { index, removed, added } = change;
+        removed.forEach(item => untrack(state, item));
+        added.forEach(item => track(state, item, record));
+        record({
+          undo: () => { array.splice(index, added.length, ...removed); },
+          redo: () => { array.splice(index, removed.length, ...added); },
+        });
+      } else {
+        const { index, oldValue, newValue } = change;
+        swap(oldValue, newValue);
+        record({
+          undo: () => { array[index] = oldValue; },
+          redo: () => { array[index] = newValue; },
+        });
+      }
+    });
+    array.forEach(item => track(state, item, record));
+  } else if (isObservableMap(value)) {
+    const map = value;
+    dispose = observe(map, (change: IMapDidChange) => {
+      const { name } = change;
+      const had = change.type !== 'add';
+      const has = change.type !== 'delete';
+      const oldValue = change.type !== 'add' ? change.oldValue : undefined;
+      const newValue = change.type !== 'delete' ? change.newValue : undefined;
+      swap(oldValue, newValue);
+      record({
+        undo: () => { had ? map.set(name, oldValue) : map.delete(name); },
+        redo: () => { has ? map.set(name, newValue) : map.delete(name); },
+      });
+    });
+    map.forEach(item => track(state, item, record));
+  } else {
+    const object = value;
+    dispose = observe(object, (change: IObjectDidChange) => {
+      const name = String(change.name);
+      const had = change.type !== 'add';
+      const has = change.type !== 'remove';
+      const oldValue = change.type !== 'add' ? change.oldValue : undefined;
+      const newValue = change.type !== 'remove' ? change.newValue : undefined;
+      swap(oldValue, newValue);
+      record({
+        undo: () => { had ? set(object, name, oldValue) : remove(object, name); },
+        redo: () => { has ? set(object, name, newValue) : remove(object, name); },
+      });
+    });
+    Object.values(object).forEach(item => track(state, item, record));
+  }
+
+  state.tracked.set(value, { dispose, refs: 1 });
+}
+
+function untrack(state: HistoryState, value: unknown): void {
+  if (!isContainer(value)) return;
+  const entry = state.tracked.get(value);
+  if (!entry || --entry.refs > 0) return;
+  entry.dispose();
+  state.tracked.delete(value);
+
+  const children = isObservableArray(value) ? value.slice()
+    : isObservableMap(value) ? [...value.values()]
+    : Object.values(value);
+  children.forEach(child => untrack(state, child));
+}
+
+/**
+ * Undo/redo for a Component's or Behavior's observable fields, including changes
+ * inside arrays, Maps and plain objects. Each action (methods are actions) becomes
+ * one undo step. Records while the host is mounted.
+ *
+ * @param target - The instance to record, usually `this`
+ * @param options - `limit` caps the undo steps kept, `exclude` lists fields never recorded
+ *
+ * @example
+ * ```tsx
+ * class Editor extends Component {
+ *   shapes: Shape[] = [];
+ *   selection: string | null = null;
+ *   history = withHistory(this, { exclude: ['selection'] });
+ *
+ *   render() {
+ *     return <button disabled={!this.history.canUndo} onClick={this.history.undo}>Undo</button>;
+ *   }
+ * }
+ * ```
+ */
+export const withHistory = createBehavior(HistoryBehavior, { autoObservable: true });
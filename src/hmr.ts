@@ -0,0 +1,49 @@
+import { getSnapshot, applySnapshot, type Snapshot } from './snapshot';
+import type { Component } from './component';
+
+/** Coarse value kind: a field whose kind changed between edits can't take the old value */
+function kindOf(value: unknown): string {
+  if (value === null || value === undefined) return 'empty';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * @internal Build a restore function that carries an old instance's state into its
+ * hot-reloaded replacement. Fields are copied where the key still exists and the
+ * value kind still matches (empty values match anything); the rest are reported.
+ */
+export function carryOverState(previous: Component<any>): (instance: Component<any>) => void {
+  const snapshot = getSnapshot(previous);
+  const name = previous.constructor.name;
+
+  return (instance) => {
+    const current = getSnapshot(instance);
+    const kept: Snapshot = {};
+    const dropped: string[] = [];
+
+    for (const [key, value] of Object.entries(snapshot)) {
+      if (!(key in current)) {
+        // An undefined field isn't captured but can still take the value; anything
+        // else was removed or is no longer plain state (now a getter, method, ref...)
+        if (key in instance && (instance as any)[key] === undefined) kept[key] = value;
+        else dropped.push(`${key} (removed)`);
+        continue;
+      }
+
+      const before = kindOf(value);
+      const after = kindOf(current[key]);
+      if (before !== after && before !== 'empty' && after !== 'empty') {
+        dropped.push(`${key} (type changed)`);
+      } else {
+        kept[key] = value;
+      }
+    }
+
+    applySnapshot(instance, kept);
+
+    if (dropped.length > 0) {
+      console.warn(`[mobx-mantle] ${name}: Hot reload could not keep state for ${dropped.join(', ')}.`);
+    }
+  };
+}
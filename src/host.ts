@@ -0,0 +1,184 @@
+import { globalConfig, rethrowHeldErrors, type ErrorPolicy } from './config';
+import {
+  type Component,
+  type PropsOf,
+  type InstanceOptions,
+  type RegionRenderer,
+  createInstance,
+  setInstanceProps,
+  layoutMountInstance,
+  mountInstance,
+  updateInstance,
+  disposeInstance,
+} from './component';
+import type { Injector } from './inject';
+import { carryOverState } from './hmr';
+
+/**
+ * Drives one Component instance through its lifecycle, independent of any
+ * renderer. Adapters (React, the DOM backend, tests, your own) create a host,
+ * render `vm`, and report what happened; ordering, props notification and
+ * watcher disposal stay in one place.
+ *
+ * Lifecycle calls are idempotent: `mount()` on a mounted host does nothing, and
+ * after `unmount()` the host can be mounted again (as React's StrictMode does).
+ * A remount starts the watchers, effects and resources the unmount stopped, and
+ * attaches behaviors assigned to fields again; `onCreate` doesn't run twice, and
+ * tasks the unmount aborted stay aborted.
+ *
+ * Under the 'rethrow' error policy, setProps(), layoutMount(), mount(), update() and
+ * unmount() also throw errors held from watchers, effects and async work.
+ */
+export interface LifecycleHost<C extends Component<any>> {
+  /** The ViewModel instance */
+  readonly vm: C;
+  /** The class `vm` was created from */
+  readonly ComponentClass: new () => C;
+  /** Whether mount() has run and unmount() has not */
+  readonly mounted: boolean;
+  /**
+   * Commit new props and notify observers (watchers, computeds, render reactions).
+   * Skipped when they shallowly equal the last committed props. Returns whether they changed.
+   */
+  setProps(props: PropsOf<C>): boolean;
+  /**
+   * Make `this.props` return `props` without notifying anyone, for renderers that
+   * read props mid-render (notifying there would update other views while rendering).
+   * Follow up with setProps() once the render has committed.
+   */
+  syncProps(props: PropsOf<C>): void;
+  /** Run behavior + component onLayoutMount (DOM in place, before paint) */
+  layoutMount(): void;
+  /** Run the onLayoutMount cleanups, ahead of unmount() (React runs layout cleanups first) */
+  layoutUnmount(): void;
+  /** Run behavior + component onMount, after layoutMount() if it hasn't run */
+  mount(): void;
+  /** Run onUpdate, after a render has committed */
+  update(): void;
+  /**
+   * Run cleanups and onUnmount, dispose watchers and unmount behaviors. A host that
+   * never mounted (its render was abandoned) just stops its watchers, tasks and resources.
+   */
+  unmount(): void;
+  /** Hot reload: whether the host's class was replaced by a re-executed module */
+  isStale(ComponentClass: new () => C): boolean;
+  /** Hot reload: a `restore` option carrying this instance's state into its replacement */
+  carryState(): (instance: Component<any>) => void;
+}
+
+/** Options for createLifecycleHost */
+export interface LifecycleHostOptions {
+  /** Make all fields observable (default: the global `autoObservable`) */
+  autoObservable?: boolean;
+  /** Values for `this.inject()` */
+  injector?: Injector | null;
+  /** Parent ViewModel for `getParent()`/`findAncestor()` */
+  parent?: Component<any> | null;
+  /** Set as `this.forwardRef` */
+  forwardRef?: InstanceOptions['forwardRef'];
+  /** Restore state (a snapshot, or carryState() of a hot-reloaded host) before onCreate */
+  restore?: (instance: Component<any>) => void;
+  errorPolicy?: ErrorPolicy;
+  /** Renders `this.region()` under its own observer. Without it, regions render inline. */
+  region?: RegionRenderer;
+}
+
+/** Shallow-compare two objects by own enumerable keys */
+function shallowEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  for (const key of keysA) {
+    if (a[key] !== b[key]) return false;
+  }
+  return true;
+}
+
+/**
+ * Create a Component instance the way every renderer does: props box, behavior
+ * collection, observable annotations, then `onCreate` with reactive props.
+ * Nothing else runs until the adapter calls the lifecycle methods.
+ *
+ * @example
+ * ```ts
+ * const host = createLifecycleHost(Counter, { initial: 1 });
+ * paint(host.vm.render());
+ * host.mount();
+ * // on new props:
+ * host.setProps({ initial: 2 });
+ * paint(host.vm.render());
+ * host.update();
+ * // when removed:
+ * host.unmount();
+ * ```
+ */
+export function createLifecycleHost<C extends Component<any>>(
+  ComponentClass: new () => C,
+  props: PropsOf<C>,
+  options: LifecycleHostOptions = {}
+): LifecycleHost<C> {
+  const { autoObservable = globalConfig.autoObservable, ...rest } = options;
+  const vm = createInstance(ComponentClass, props, { ...rest, autoObservable });
+
+  let committedProps = props;
+  let layoutCleanup: (() => void) | undefined;
+  let mountCleanup: (() => void) | undefined;
+
+  return {
+    vm,
+    ComponentClass,
+    get mounted() {
+      return mountCleanup !== undefined;
+    },
+    setProps(next) {
+      if (shallowEqual(committedProps, next)) return false;
+      // syncProps() may have put `next` in the box already, and setting the same value wouldn't notify
+      vm._syncProps(committedProps);
+      committedProps = next;
+      setInstanceProps(vm, next);
+      rethrowHeldErrors();
+      return true;
+    },
+    syncProps(next) {
+      vm._syncProps(next);
+    },
+    layoutMount() {
+      if (layoutCleanup) return;
+      layoutCleanup = layoutMountInstance(vm);
+      rethrowHeldErrors();
+    },
+    layoutUnmount() {
+      layoutCleanup?.();
+      layoutCleanup = undefined;
+    },
+    mount() {
+      if (mountCleanup) return;
+      // Layout effects always commit before passive effects
+      this.layoutMount();
+      mountCleanup = mountInstance(vm);
+      rethrowHeldErrors();
+    },
+    update() {
+      updateInstance(vm);
+      rethrowHeldErrors();
+    },
+    unmount() {
+      this.layoutUnmount();
+      if (mountCleanup) {
+        mountCleanup();
+        mountCleanup = undefined;
+      } else if (vm._mountState !== 'unmounted') {
+        disposeInstance(vm);
+      }
+      rethrowHeldErrors();
+    },
+    isStale(Current) {
+      return Current !== ComponentClass;
+    },
+    carryState() {
+      return carryOverState(vm);
+    },
+  };
+}
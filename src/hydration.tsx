@@ -0,0 +1,57 @@
+import { createContext, useState, type ReactNode } from 'react';
+import type { Component } from './component';
+import type { Snapshot } from './snapshot';
+
+/** Serialized state for a whole render: useId() of each Component → its state */
+export type HydrationState = Record<string, Snapshot>;
+
+/** @internal State waiting to be applied to instances as they are created */
+export class HydrationStore {
+  private states: Map<string, Snapshot>;
+
+  constructor(state: HydrationState) {
+    this.states = new Map(Object.entries(state));
+  }
+
+  /** Read (but keep) the state for an instance — a discarded render may construct it again */
+  peek(id: string): Snapshot | undefined {
+    return this.states.get(id);
+  }
+
+  /** Drop the state once its instance commits, so a later remount in the same spot starts fresh */
+  consume(id: string): void {
+    this.states.delete(id);
+  }
+}
+
+/** @internal Carries the HydrationStore down the React tree */
+export const HydrationContext = createContext<HydrationStore | null>(null);
+
+/** @internal Collects instances and onServerPrefetch promises during a server render pass */
+export interface ServerCollector {
+  /** Instances whose onServerPrefetch already ran in an earlier pass */
+  prefetched: Set<string>;
+  prefetches: Promise<void>[];
+  instances: Map<string, Component<any>>;
+}
+
+/** @internal Present only inside renderToStringWithState */
+export const ServerCollectorContext = createContext<ServerCollector | null>(null);
+
+/**
+ * Apply server-rendered ViewModel state while hydrating. Wrap the same element you
+ * passed to `renderToStringWithState`, with the state it returned.
+ *
+ * @example
+ * ```tsx
+ * hydrateRoot(container,
+ *   <Hydrate state={window.__MANTLE_STATE__}>
+ *     <App />
+ *   </Hydrate>
+ * );
+ * ```
+ */
+export function Hydrate({ state, children }: { state?: HydrationState; children?: ReactNode }) {
+  const [store] = useState(() => new HydrationStore(state ?? {}));
+  return <HydrationContext.Provider value={store}>{children}</HydrationContext.Provider>;
+}
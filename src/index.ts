@@ -11,10 +11,65 @@ export {
   // Decorators (for explicit annotation mode)
   observable,
   action,
-  computed,
+  transient,
   
   // Config
   configure,
+  
+  // Dependency injection
+  createToken,
+  Provide,
+  Injector,
+
+  // Snapshots
+  getSnapshot,
+  applySnapshot,
+
+  // SSR hydration
+  Hydrate,
 } from './mantle';
 
-export type { MantleConfig, MantleErrorContext, WatchOptions } from './mantle';
+export type { MantleConfig, MantleErrorContext, MantleTraceEvent, ErrorPolicy, WatchOptions, InjectionToken, Snapshot, HydrationState } from './mantle';
+
+export {
+  // Functional API
+  defineView,
+  defineBehavior,
+  reactive,
+  ref,
+  computed, // also the @computed decorator
+  watch,
+  effect,
+  task,
+  resource,
+  inject,
+  onMount,
+  onLayoutMount,
+  onUpdate,
+  onUnmount,
+  domRef,
+} from './functional';
+
+export type { Ref, ComputedRef } from './functional';
+
+export { Task } from './task';
+export { Resource } from './resource';
+export type { ResourceOptions } from './resource';
+
+export { withHistory } from './history';
+export type { HistoryOptions } from './history';
+
+export { withPersist, localStorageAdapter, sessionStorageAdapter, memoryStorageAdapter } from './persist';
+export type { PersistOptions, StorageAdapter } from './persist';
+
+export { withForm } from './form';
+export type { Form, FormOptions, FieldDefinition, FieldBinding, Validator, AsyncValidator, ValidationResult } from './form';
+
+export { For } from './for';
+export type { ForProps } from './for';
+
+export { createLifecycleHost } from './host';
+export type { LifecycleHost, LifecycleHostOptions } from './host';
+
+export { getInstances, inspect, subscribeInstances } from './devtools';
+export type { InstanceInfo, InstanceEvent, InstanceKind } from './devtools';
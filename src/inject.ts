@@ -0,0 +1,113 @@
+/**
+ * A typed key for dependency injection. Create with createToken().
+ */
+export class InjectionToken<T> {
+  /** @internal Phantom field so tokens with different T are not assignable */
+  declare readonly _type?: T;
+
+  constructor(
+    readonly name: string,
+    readonly hasDefault: boolean,
+    readonly defaultValue?: T
+  ) {}
+}
+
+/**
+ * Create an injection token. Provide a value with `<Provide>` and read it with
+ * `this.inject(token)` in Components and Behaviors.
+ *
+ * @param name - Used in error messages
+ * @param defaultValue - Returned when no provider is found (otherwise inject throws)
+ *
+ * @example
+ * ```tsx
+ * export const StoreToken = createToken<AppStore>('AppStore');
+ * ```
+ */
+export function createToken<T>(name: string, ...defaultValue: [] | [T]): InjectionToken<T> {
+  return new InjectionToken<T>(name, defaultValue.length > 0, defaultValue[0]);
+}
+
+/**
+ * A chain of provided values. Each `<Provide>` adds a child injector.
+ */
+export class Injector {
+  private values = new Map<InjectionToken<any>, unknown>();
+
+  constructor(readonly parent: Injector | null = null) {}
+
+  provide<T>(token: InjectionToken<T>, value: T): this {
+    this.values.set(token, value);
+    return this;
+  }
+
+  has(token: InjectionToken<any>): boolean {
+    return this.values.has(token) || (this.parent?.has(token) ?? false);
+  }
+
+  get<T>(token: InjectionToken<T>): T | undefined {
+    if (this.values.has(token)) return this.values.get(token) as T;
+    return this.parent?.get(token);
+  }
+}
+
+/** Tracks the injector each Component/Behavior was created under — no footprint on the object itself */
+const instanceInjectors = new WeakMap<object, Injector>();
+
+/** Values handed out by inject() — annotated observable.ref so stores keep their identity */
+const injectedValues = new WeakSet<object>();
+
+let currentInjector: Injector | null = null;
+
+/** @internal Run fn (typically instance construction) with injector active, so field initializers can inject */
+export function runWithInjector<T>(injector: Injector | null, fn: () => T): T {
+  const prev = currentInjector;
+  currentInjector = injector;
+  try {
+    return fn();
+  } finally {
+    currentInjector = prev;
+  }
+}
+
+/** @internal The injector active during construction, if any */
+export function getCurrentInjector(): Injector | null {
+  return currentInjector;
+}
+
+/** @internal Remember which injector an instance belongs to */
+export function setInstanceInjector(instance: object, injector: Injector | null): void {
+  if (injector) instanceInjectors.set(instance, injector);
+}
+
+/**
+ * @internal Resolve a token for an instance. Used by Component.inject and Behavior.inject.
+ * `owner` supplies an instance to fall back to when this one was created with no injector
+ * active, e.g. a behavior's host.
+ */
+export function resolveToken<T>(instance: object, token: InjectionToken<T>, owner?: () => object | null): T {
+  // Field initializers run before the instance is registered
+  let injector = instanceInjectors.get(instance) ?? currentInjector;
+  if (!injector && owner) {
+    const fallback = owner();
+    injector = (fallback && instanceInjectors.get(fallback)) ?? null;
+  }
+
+  if (injector?.has(token)) return trackInjected(injector.get(token) as T);
+  if (token.hasDefault) return trackInjected(token.defaultValue as T);
+
+  throw new Error(
+    `[mobx-mantle] ${instance.constructor.name}: No provider found for ${token.name}. ` +
+    `Wrap the tree in <Provide token={${token.name}} value={...}>, or give the token a default value.`
+  );
+}
+
+function trackInjected<T>(value: T): T {
+  if (value !== null && typeof value === 'object') injectedValues.add(value);
+  return value;
+}
+
+/** @internal Whether a value was returned by inject() */
+export function isInjected(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && injectedValues.has(value);
+}
@@ -0,0 +1,57 @@
+import { observable, runInAction, type IObservableValue } from 'mobx';
+
+/** Ids for object items without an explicit key — no footprint on the objects themselves */
+const objectKeys = new WeakMap<object, number>();
+let nextKey = 1;
+
+/** @internal Default list key: object identity, or the primitive value itself */
+export function identityKey(item: unknown): string | number {
+  if (item !== null && (typeof item === 'object' || typeof item === 'function')) {
+    let key = objectKeys.get(item);
+    if (key === undefined) {
+      key = nextKey++;
+      objectKeys.set(item, key);
+    }
+    return `#${key}`;
+  }
+  return typeof item === 'number' ? item : String(item);
+}
+
+/** @internal Observable row positions for `<For>`, so a shift only re-renders the rows that read their index */
+export interface RowIndexes {
+  /** The position box for a row, created at the index it first renders at */
+  get(key: unknown, index: number): IObservableValue<number>;
+  /** Move rows to the indexes their last render gave them and forget keys no longer listed */
+  commit(): void;
+}
+
+/** @internal */
+export function createRowIndexes(): RowIndexes {
+  const boxes = new Map<unknown, IObservableValue<number>>();
+  // Positions from renders since the last commit; null when nothing rendered since
+  let rendered: Map<unknown, number> | null = null;
+
+  return {
+    get(key, index) {
+      (rendered ??= new Map()).set(key, index);
+      let box = boxes.get(key);
+      if (!box) {
+        box = observable.box(index);
+        boxes.set(key, box);
+      }
+      return box;
+    },
+    commit() {
+      const positions = rendered;
+      if (!positions) return;
+      rendered = null;
+      runInAction(() => {
+        for (const [key, box] of boxes) {
+          const index = positions.get(key);
+          if (index === undefined) boxes.delete(key);
+          else box.set(index);
+        }
+      });
+    },
+  };
+}
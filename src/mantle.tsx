@@ -1,425 +1,167 @@
-import { useRef, useEffect, useLayoutEffect, forwardRef as reactForwardRef, memo, type Ref, type JSX } from 'react';
-import { makeObservable, observable, computed, action, runInAction, reaction, autorun, AnnotationsMap, type IObservableValue } from 'mobx';
-import { useObserver } from 'mobx-react-lite';
 import {
-  type BehaviorEntry,
-  isBehavior,
-  layoutMountBehavior,
-  mountBehavior,
-  unmountBehavior,
-} from './behavior';
-import { globalConfig, reportError, type WatchOptions, type EffectOptions } from './config';
-import { getAnnotations } from './decorators';
+  createContext,
+  useContext,
+  useMemo,
+  useRef,
+  useId,
+  useEffect,
+  useLayoutEffect,
+  forwardRef as reactForwardRef,
+  memo,
+  type JSX,
+  type ReactNode,
+} from 'react';
+import { useObserver } from 'mobx-react-lite';
+import { globalConfig, reportError, traced, type ErrorPolicy } from './config';
+import { Component, type PropsOf, type RegionRenderer } from './component';
+import { type LifecycleHost, createLifecycleHost } from './host';
+import { Injector, type InjectionToken } from './inject';
+import { claimPendingInstance, holdPendingInstance, isThenable } from './suspense';
+import { HydrationContext, ServerCollectorContext } from './hydration';
+import { applySnapshot } from './snapshot';
+import { CatchBoundary, reportRenderError } from './boundary';
 
 // Re-export config utilities
-export { configure, type MantleConfig, type MantleErrorContext, type WatchOptions, type EffectOptions } from './config';
+export { configure, type MantleConfig, type MantleErrorContext, type MantleTraceEvent, type ErrorPolicy, type WatchOptions, type EffectOptions } from './config';
 
 // Re-export decorators for single-import convenience
-export { observable, action, computed } from './decorators';
-
-/** Tracks refs created by Component.ref() — no footprint on the object itself */
-const componentRefs = new WeakSet();
-
-/** Shallow-compare two objects by own enumerable keys */
-function shallowEqual(a: any, b: any): boolean {
-  if (a === b) return true;
-  if (!a || !b) return false;
-  const keysA = Object.keys(a);
-  const keysB = Object.keys(b);
-  if (keysA.length !== keysB.length) return false;
-  for (const key of keysA) {
-    if (a[key] !== b[key]) return false;
-  }
-  return true;
-}
-
-export class Component<P = {}> {
-  /** @internal */
-  _propsBox!: IObservableValue<P>;
-
-  get props(): P {
-    return this._propsBox.get();
-  }
-
-  /** @internal — called by createComponent to silently update props during render */
-  _syncProps(value: P) {
-    // Directly set the internal value without triggering MobX notifications.
-    // React renders the component tree synchronously — if we used runInAction
-    // here, endBatch() would flush reactions and try to update other observer
-    // components while React is still rendering, causing:
-    //   "Cannot update component A while rendering component B"
-    //
-    // The value is updated so this._propsBox.get() returns the correct value
-    // during render. Reactions are notified separately in useLayoutEffect.
-    (this._propsBox as any).value_ = value;
-  }
-
-  forwardRef?: Ref<any>;
-
-  /** @internal */
-  _behaviors: BehaviorEntry[] = [];
-
-  /** @internal */
-  _watchDisposers: (() => void)[] = [];
-
-  onCreate?(props: P): void;
-  onLayoutMount?(): void | (() => void);
-  onMount?(): void | (() => void);
-  onUpdate?(): void;
-  onUnmount?(): void;
-
-  ref<T extends HTMLElement = HTMLElement>(): { current: T | null } {
-    const r = { current: null } as { current: T | null };
-    componentRefs.add(r);
-    return r;
-  }
-
-  /**
-   * Watch a reactive expression and run a callback when it changes.
-   * Automatically disposed on unmount.
-   * 
-   * @param expr - Reactive expression (getter) to watch
-   * @param callback - Called when the expression result changes
-   * @param options - Optional configuration (delay, fireImmediately)
-   * @returns Dispose function for early teardown
-   * 
-   * @example
-   * ```tsx
-   * onCreate() {
-   *   this.watch(
-   *     () => this.query,
-   *     async (query) => {
-   *       if (query.length > 2) {
-   *         this.results = await searchApi(query);
-   *       }
-   *     },
-   *     { delay: 300 }
-   *   );
-   * }
-   * ```
-   */
-  watch<T>(
-    expr: () => T,
-    callback: (value: T, prevValue: T | undefined) => void,
-    options?: WatchOptions
-  ): () => void {
-    const dispose = reaction(
-      expr,
-      (value, prevValue) => {
-        try {
-          callback(value, prevValue);
-        } catch (e) {
-          reportError(e, { phase: 'watch', name: this.constructor.name, isBehavior: false });
-        }
-      },
-      {
-        delay: options?.delay,
-        fireImmediately: options?.fireImmediately,
-      }
-    );
-
-    this._watchDisposers.push(dispose);
-
-    // Return a dispose function that also removes from the array
-    return () => {
-      dispose();
-      const idx = this._watchDisposers.indexOf(dispose);
-      if (idx !== -1) this._watchDisposers.splice(idx, 1);
-    };
-  }
-
-  /**
-   * Run a side effect that auto-tracks reactive dependencies.
-   * Re-runs whenever any accessed observable changes.
-   * Automatically disposed on unmount.
-   * 
-   * Best for simple synchronization (DOM updates, logging). For complex
-   * side effects with explicit triggers, prefer `watch()`.
-   * 
-   * @param fn - Effect function. May return a cleanup function.
-   * @param options - Optional configuration (delay)
-   * @returns Dispose function for early teardown
-   * 
-   * @example
-   * ```tsx
-   * onCreate() {
-   *   this.effect(() => {
-   *     document.title = `${this.items.length} items`;
-   *   });
-   * }
-   * ```
-   * 
-   * @example With cleanup
-   * ```tsx
-   * onCreate() {
-   *   this.effect(() => {
-   *     const handler = () => console.log(this.count);
-   *     window.addEventListener('click', handler);
-   *     return () => window.removeEventListener('click', handler);
-   *   });
-   * }
-   * ```
-   */
-  effect(
-    fn: () => void | (() => void),
-    options?: EffectOptions
-  ): () => void {
-    let cleanup: (() => void) | undefined;
-
-    const dispose = autorun(
-      () => {
-        // Run previous cleanup before re-running effect
-        cleanup?.();
-        cleanup = undefined;
-
-        try {
-          const result = fn();
-          if (typeof result === 'function') {
-            cleanup = result;
-          }
-        } catch (e) {
-          reportError(e, { phase: 'effect', name: this.constructor.name, isBehavior: false });
-        }
-      },
-      { delay: options?.delay }
-    );
-
-    this._watchDisposers.push(dispose);
-
-    // Return a dispose function that runs cleanup and removes from array
-    return () => {
-      cleanup?.();
-      dispose();
-      const idx = this._watchDisposers.indexOf(dispose);
-      if (idx !== -1) this._watchDisposers.splice(idx, 1);
-    };
-  }
-
-  /** @internal */
-  _disposeWatchers(): void {
-    for (const dispose of this._watchDisposers) {
-      dispose();
-    }
-    this._watchDisposers.length = 0;
-  }
-
-  /** @internal - Scan own properties for behavior instances and register them */
-  _collectBehaviors(): void {
-    for (const key of Object.keys(this)) {
-      if (key.startsWith('_')) continue;
-      const value = (this as any)[key];
-      if (isBehavior(value)) {
-        this._behaviors.push({ instance: value });
-      }
-    }
-  }
-
-  /** @internal */
-  _layoutMountBehaviors(): void {
-    for (const behavior of this._behaviors) {
-      layoutMountBehavior(behavior);
-    }
-  }
-
-  /** @internal */
-  _mountBehaviors(): void {
-    for (const behavior of this._behaviors) {
-      mountBehavior(behavior);
-    }
-  }
-
-  /** @internal */
-  _unmountBehaviors(): void {
-    for (const behavior of this._behaviors) {
-      unmountBehavior(behavior);
-    }
-  }
+export { observable, action, computed, transient } from './decorators';
 
-  render?(): JSX.Element | null;
-}
+export { Component };
 
 /** Alias for Component - use when separating ViewModel from template */
-export { Component as ViewModel };
+export { Component as ViewModel } from './component';
 
 // Re-export from behavior module
 export { createBehavior, Behavior } from './behavior';
 
-// Base class members that should not be made observable
-const BASE_EXCLUDES = new Set([
-  'props',
-  '_propsBox',
-  'forwardRef', 
-  'onCreate',
-  'onLayoutMount',
-  'onMount', 
-  'onUpdate',
-  'onUnmount',
-  'render', 
-  'ref',
-  'watch',
-  'effect',
-  'constructor',
-  '_behaviors',
-  '_collectBehaviors',
-  '_layoutMountBehaviors',
-  '_mountBehaviors',
-  '_unmountBehaviors',
-  '_syncProps',
-  '_watchDisposers',
-  '_disposeWatchers',
-]);
+// Re-export injection utilities
+export { createToken, Injector, type InjectionToken } from './inject';
 
-/**
- * Detects if a value is a ref created by Component.ref()
- * These should use observable.ref to preserve object identity for React
- */
-function isComponentRef(value: unknown): boolean {
-  return value !== null && typeof value === 'object' && componentRefs.has(value as object);
-}
-
-/**
- * Creates observable annotations for a Component subclass instance.
- * This is needed because makeAutoObservable doesn't work with inheritance.
- */
-function makeComponentObservable<T extends Component>(instance: T, autoBind: boolean) {
-  const annotations: AnnotationsMap<T, never> = {} as AnnotationsMap<T, never>;
+// Re-export snapshot utilities
+export { getSnapshot, applySnapshot, type Snapshot } from './snapshot';
 
-  // Collect own properties (instance state) → observable
-  // Also check prototype for class field declarations (handles uninitialized fields)
-  const ownKeys = new Set([
-    ...Object.keys(instance),
-    ...Object.keys(Object.getPrototypeOf(instance)),
-  ]);
+// Re-export hydration utilities
+export { Hydrate, type HydrationState } from './hydration';
 
-  for (const key of ownKeys) {
-    if (BASE_EXCLUDES.has(key)) continue;
-    if (key in annotations) continue;
+/** Carries the nearest Injector down the React tree */
+const InjectorContext = createContext<Injector | null>(null);
 
-    const value = (instance as any)[key];
+/** Carries the nearest Mantle ViewModel down the React tree (for getParent/findAncestor) */
+const ParentContext = createContext<Component<any> | null>(null);
 
-    // Skip functions (these are handled in the prototype walk)
-    if (typeof value === 'function') continue;
+/**
+ * Provide a value for `this.inject(token)` to every Component and Behavior below.
+ * Providers nest: the nearest one for a token wins.
+ *
+ * @example
+ * ```tsx
+ * <Provide token={StoreToken} value={store}>
+ *   <App />
+ * </Provide>
+ * ```
+ */
+export function Provide<T>({ token, value, children }: {
+  token: InjectionToken<T>;
+  value: T;
+  children?: ReactNode;
+}) {
+  const parent = useContext(InjectorContext);
+  const injector = useMemo(
+    () => new Injector(parent).provide(token, value),
+    [parent, token, value]
+  );
+  return <InjectorContext.Provider value={injector}>{children}</InjectorContext.Provider>;
+}
 
-    // Skip behavior instances (they're already observable)
-    if (isBehavior(value)) {
-      (annotations as any)[key] = observable.ref;
-      continue;
-    }
+const isServer = typeof window === 'undefined';
 
-    // Use observable.ref for Component.ref() objects to preserve identity
-    if (isComponentRef(value)) {
-      (annotations as any)[key] = observable.ref;
-    } else {
-      (annotations as any)[key] = observable;
-    }
-  }
+/** @internal Effects never run on the server; useEffect there avoids React's useLayoutEffect SSR warning */
+export const useIsomorphicLayoutEffect = isServer ? useEffect : useLayoutEffect;
 
-  // Walk prototype chain up to (but not including) Component
-  let proto = Object.getPrototypeOf(instance);
-  while (proto && proto !== Component.prototype) {
-    const descriptors = Object.getOwnPropertyDescriptors(proto);
-
-    for (const [key, descriptor] of Object.entries(descriptors)) {
-      if (BASE_EXCLUDES.has(key)) continue;
-      if (key in annotations) continue;
-
-      if (descriptor.get) {
-        // Getter → computed
-        (annotations as any)[key] = computed;
-      } else if (typeof descriptor.value === 'function') {
-        // Method → action (optionally bound)
-        (annotations as any)[key] = autoBind ? action.bound : action;
-      }
-    }
+/** useId() is React 18+. Without it, a suspended first render constructs a fresh instance on retry. */
+const useInstanceId: () => string | null = typeof useId === 'function' ? useId : () => null;
 
-    proto = Object.getPrototypeOf(proto);
+/** Output of `this.region()`: rendered under its own observer, so only it re-renders when what it reads changes */
+function Region({ vm, render }: { vm: Component<any>; render: () => JSX.Element | null }) {
+  try {
+    return useObserver(() => traced({ phase: 'render', name: vm.constructor.name, isBehavior: false }, render));
+  } catch (e) {
+    if (!isThenable(e)) reportRenderError(e, vm);
+    throw e;
   }
-
-  makeObservable(instance, annotations);
 }
 
-type PropsOf<C> = C extends Component<infer P> ? P : object;
+const renderRegion: RegionRenderer = (vm, render) => <Region vm={vm} render={render} />;
 
 export function createComponent<C extends Component<any>>(
   ComponentClass: new () => C,
-  templateOrOptions?: ((vm: C) => JSX.Element) | { autoObservable?: boolean }
+  templateOrOptions?: ((vm: C) => JSX.Element) | { autoObservable?: boolean; preserveHmrState?: boolean; errorPolicy?: ErrorPolicy }
 ) {
   type P = PropsOf<C>;
 
   const template = typeof templateOrOptions === 'function' ? templateOrOptions : undefined;
   const options = typeof templateOrOptions === 'object' ? templateOrOptions : {};
-  const { autoObservable = globalConfig.autoObservable } = options;
+  const { autoObservable = globalConfig.autoObservable, preserveHmrState, errorPolicy } = options;
+  const catchesErrors = typeof ComponentClass.prototype.onCatch === 'function';
 
   const ReactComponent = reactForwardRef<unknown, P>((props, ref) => {
-    const vmRef = useRef<C | null>(null);
-    const classRef = useRef(ComponentClass);
-    const prevPropsRef = useRef<P | null>(null);
+    const hostRef = useRef<LifecycleHost<C> | null>(null);
     const propsNotifyingRef = useRef(false);
+    const injector = useContext(InjectorContext);
+    const parent = useContext(ParentContext);
+    const instanceId = useInstanceId();
+    const hydration = useContext(HydrationContext);
+    const collector = useContext(ServerCollectorContext);
 
     // HMR: class identity changes when the module re-executes, but useRef
     // values survive (React Fast Refresh preserves hooks). On detection,
-    // we simply discard the old instance and create fresh — clean slate.
+    // we discard the old instance and create fresh — clean slate, unless
+    // preserveHmrState is on, in which case its state is carried over.
     // In production this check is always false (class identity is stable).
-    if (vmRef.current && classRef.current !== ComponentClass) {
-      classRef.current = ComponentClass;
-      vmRef.current = null;
+    let carried: ((instance: Component<any>) => void) | undefined;
+    if (hostRef.current?.isStale(ComponentClass)) {
+      if (preserveHmrState ?? globalConfig.preserveHmrState) {
+        carried = hostRef.current.carryState();
+      }
+      hostRef.current = null;
     }
 
-    if (!vmRef.current) {
-      const instance = new ComponentClass();
-
-      // Props is always reactive via observable.box (works with all decorator modes)
-      instance._propsBox = observable.box(props, { deep: false });
-      instance.forwardRef = ref;
-
-      // Collect behavior instances from properties (must happen before makeObservable)
-      instance._collectBehaviors();
-
-      // Check for Mantle decorator annotations first
-      const decoratorAnnotations = getAnnotations(instance);
-      
-      if (decoratorAnnotations) {
-        // Mantle decorators: use collected annotations
-        // Auto-bind all methods for stable `this` references
-        const annotations = { ...decoratorAnnotations };
-        
-        // Walk prototype chain to auto-bind methods not explicitly decorated
-        let proto = Object.getPrototypeOf(instance);
-        while (proto && proto !== Component.prototype) {
-          const descriptors = Object.getOwnPropertyDescriptors(proto);
-          for (const [key, descriptor] of Object.entries(descriptors)) {
-            if (BASE_EXCLUDES.has(key)) continue;
-            if (key in annotations) continue;
-            if (typeof descriptor.value === 'function') {
-              annotations[key] = action.bound;
-            }
+    // Suspended instances are kept per server request (its collector). A server render
+    // without one, e.g. a stream, can't tell concurrent requests apart, so it keeps none.
+    const suspenseScope = isServer ? collector : null;
+    const keepsSuspended = !isServer || collector !== null;
+
+    if (!hostRef.current) {
+      // A first render that suspended left its instance behind — pick it back up
+      const pending = keepsSuspended ? claimPendingInstance(ComponentClass, props, parent, suspenseScope) : null;
+      if (pending) {
+        hostRef.current = pending;
+      } else {
+        const snapshot = instanceId !== null ? hydration?.peek(instanceId) : undefined;
+        const restore = snapshot ? (instance: Component<any>) => applySnapshot(instance, snapshot) : carried;
+        hostRef.current = createLifecycleHost(ComponentClass, props as P, { autoObservable, forwardRef: ref, injector, parent, restore, errorPolicy, region: renderRegion });
+
+        // Server render pass: prefetch once, then renderToStringWithState renders again with the results
+        if (collector && instanceId !== null) {
+          const vm = hostRef.current.vm;
+          collector.instances.set(instanceId, vm);
+          if (vm.onServerPrefetch && !collector.prefetched.has(instanceId)) {
+            collector.prefetched.add(instanceId);
+            collector.prefetches.push(
+              Promise.resolve()
+                .then(() => vm.onServerPrefetch!())
+                .catch((e) => {
+                  reportError(e, { phase: 'onServerPrefetch', name: ComponentClass.name, isBehavior: false, instance: vm });
+                })
+            );
           }
-          proto = Object.getPrototypeOf(proto);
         }
-        
-        makeObservable(instance, annotations as AnnotationsMap<C, never>);
-      } else if (autoObservable) {
-        makeComponentObservable(instance, true);
-      } else {
-        // For legacy decorator users: applies decorator metadata
-        makeObservable(instance);
       }
-
-      // Proxy forwards property access to instance.props, so reads are tracked
-      // by MobX when used in reactions/computeds (same behavior as this.props)
-      const reactiveProps = new Proxy({} as P, {
-        get: (_, key) => (instance.props as any)[key],
-        has: (_, key) => key in (instance.props as any),
-        ownKeys: () => Reflect.ownKeys(instance.props as object),
-        getOwnPropertyDescriptor: (_, key) =>
-          Reflect.getOwnPropertyDescriptor(instance.props as object, key),
-      });
-      instance.onCreate?.(reactiveProps);
-      vmRef.current = instance;
-      prevPropsRef.current = props as P;
     }
 
-    const vm = vmRef.current;
+    const host = hostRef.current;
+    const vm = host.vm;
 
     // Dev warning: detect when a prop-triggered reaction causes a re-render.
     // This means a reaction is being used for derived state — a computed getter
@@ -433,87 +175,40 @@ export function createComponent<C extends Component<any>>(
       propsNotifyingRef.current = false;
     }
 
-    // Silently update _propsBox.value_ so this.props returns the correct value
-    // during render, without triggering MobX reactions (which would cause
-    // "Cannot update component A while rendering component B").
-    vm._syncProps(props as P);
+    // Update this.props for the render without triggering MobX reactions (which
+    // would cause "Cannot update component A while rendering component B").
+    host.syncProps(props as P);
     vm.forwardRef = ref;
 
     // After render completes, properly notify MobX observers of prop changes.
     // This enables reaction(() => this.props.x, ...) in lifecycle methods.
     // useLayoutEffect runs after React finishes the render pass, so it's safe
     // to flush reactions here.
-    useLayoutEffect(() => {
-      if (!shallowEqual(prevPropsRef.current, props)) {
-        prevPropsRef.current = props as P;
-        propsNotifyingRef.current = true;
-        runInAction(() => {
-          vm._propsBox.set(props);
-        });
-        // If a reaction triggered a synchronous re-render, the warning
-        // already fired above. Clear the flag for the normal case.
-        propsNotifyingRef.current = false;
-      }
+    useIsomorphicLayoutEffect(() => {
+      propsNotifyingRef.current = true;
+      host.setProps(props as P);
+      // If a reaction triggered a synchronous re-render, the warning
+      // already fired above. Clear the flag for the normal case.
+      propsNotifyingRef.current = false;
     });
 
-    // [vm] dep ensures effects re-run when instance changes (HMR).
-    // On normal renders vm is stable, so effects run once — same as [].
-    useLayoutEffect(() => {
-      vm._layoutMountBehaviors();
-      let cleanup: (() => void) | undefined;
-      try {
-        const result = vm.onLayoutMount?.();
-        if (process.env.NODE_ENV !== 'production' && result instanceof Promise) {
-          console.error(
-            `[mobx-mantle] ${ComponentClass.name}.onLayoutMount() returned a Promise. ` +
-            `Lifecycle methods must be synchronous. Use a sync onLayoutMount that ` +
-            `calls an async method instead.`
-          );
-        }
-        cleanup = result as (() => void) | undefined;
-      } catch (e) {
-        reportError(e, { phase: 'onLayoutMount', name: ComponentClass.name, isBehavior: false });
-      }
-      return () => {
-        cleanup?.();
-      };
-    }, [vm]);
+    // [host] dep ensures effects re-run when the instance changes (HMR).
+    // On normal renders the host is stable, so effects run once — same as [].
+    useIsomorphicLayoutEffect(() => {
+      // Committed: server state has been applied for good
+      if (instanceId !== null) hydration?.consume(instanceId);
+      host.layoutMount();
+      return () => host.layoutUnmount();
+    }, [host]);
 
     useEffect(() => {
-      vm._mountBehaviors();
-      let cleanup: (() => void) | undefined;
-      try {
-        const result = vm.onMount?.();
-        if (process.env.NODE_ENV !== 'production' && result instanceof Promise) {
-          console.error(
-            `[mobx-mantle] ${ComponentClass.name}.onMount() returned a Promise. ` +
-            `Lifecycle methods must be synchronous. Use a sync onMount that ` +
-            `calls an async method instead.`
-          );
-        }
-        cleanup = result as (() => void) | undefined;
-      } catch (e) {
-        reportError(e, { phase: 'onMount', name: ComponentClass.name, isBehavior: false });
-      }
-      return () => {
-        cleanup?.();
-        try {
-          vm.onUnmount?.();
-        } catch (e) {
-          reportError(e, { phase: 'onUnmount', name: ComponentClass.name, isBehavior: false });
-        }
-        vm._disposeWatchers();
-        vm._unmountBehaviors();
-      };
-    }, [vm]);
+      host.mount();
+      return () => host.unmount();
+    }, [host]);
 
     // Called after every render (via useEffect)
     useEffect(() => {
-      try {
-        vm.onUpdate?.();
-      } catch (e) {
-        reportError(e, { phase: 'onUpdate', name: ComponentClass.name, isBehavior: false });
-      }
+      host.update();
     });
 
     if (!template && !vm.render) {
@@ -523,9 +218,34 @@ export function createComponent<C extends Component<any>>(
     }
 
     // Only the render call is tracked by MobX (useObserver).
-    return useObserver(() => {
-      return template ? template(vm) : vm.render!();
-    });
+    let rendered: JSX.Element | null;
+    try {
+      rendered = useObserver(() => traced(
+        { phase: 'render', name: ComponentClass.name, isBehavior: false },
+        () => template ? template(vm) : vm.render!()
+      ));
+    } catch (e) {
+      // Suspended before the first commit: React will drop our refs, so hold the instance for the retry
+      if (isThenable(e)) {
+        if (keepsSuspended) holdPendingInstance(host, props, parent, suspenseScope, e);
+        else if (vm._mountState === 'created') host.unmount();
+      } else {
+        reportRenderError(e, vm);
+      }
+      throw e;
+    }
+
+    // Server instances never mount. Stop their watchers and resources after their
+    // first render, unless renderToStringWithState still needs to snapshot them.
+    if (isServer && !collector && vm._mountState === 'created') {
+      host.unmount();
+    }
+
+    return (
+      <ParentContext.Provider value={vm}>
+        {catchesErrors ? <CatchBoundary vm={vm}>{rendered}</CatchBoundary> : rendered}
+      </ParentContext.Provider>
+    );
   });
 
   // Wrap in React.memo to match observer()'s behavior — skip re-renders
@@ -0,0 +1,240 @@
+import { runInAction } from 'mobx';
+import { Behavior, createBehavior, isBehavior } from './behavior';
+import { Component } from './component';
+import { reportError } from './config';
+import { afterInit } from './context';
+import { getSnapshot, applySnapshot, type Snapshot } from './snapshot';
+
+/**
+ * Where withPersist reads and writes. Methods may return promises for async
+ * storages (IndexedDB, native storage); localStorage-style objects fit as they are.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/** Options for withPersist */
+export interface PersistOptions {
+  /** Storage key */
+  key: string;
+  /** Fields to persist (default: every snapshot field that isn't a behavior) */
+  fields?: string[];
+  /** Where to store the state (default: localStorageAdapter()) */
+  storage?: StorageAdapter;
+  /** Schema version written with the state (default: 1) */
+  version?: number;
+  /** Upgrade state written by an older version. Without it, state from another version is discarded. */
+  migrate?: (state: Snapshot, fromVersion: number) => Snapshot;
+  /** Batch writes by N milliseconds (default: 300) */
+  delay?: number;
+}
+
+/** What is stored under the key */
+interface PersistedState {
+  version: number;
+  state: Snapshot;
+}
+
+/** Storage that does nothing — used where a Web Storage is unavailable (server, private mode) */
+const noopStorage: StorageAdapter = {
+  getItem: () => null,
+  setItem: () => {},
+  removeItem: () => {},
+};
+
+function webStorage(name: 'localStorage' | 'sessionStorage'): StorageAdapter {
+  try {
+    return globalThis[name] ?? noopStorage;
+  } catch {
+    // Accessing storage throws when it is disabled
+    return noopStorage;
+  }
+}
+
+/** Persist to `localStorage`. Falls back to no storage where it is unavailable. */
+export function localStorageAdapter(): StorageAdapter {
+  return webStorage('localStorage');
+}
+
+/** Persist to `sessionStorage`. Falls back to no storage where it is unavailable. */
+export function sessionStorageAdapter(): StorageAdapter {
+  return webStorage('sessionStorage');
+}
+
+/** Persist in memory, e.g. for tests. Pass a Map to share or inspect the stored values. */
+export function memoryStorageAdapter(store = new Map<string, string>()): StorageAdapter {
+  return {
+    getItem: (key) => store.get(key) ?? null,
+    setItem: (key, value) => { store.set(key, value); },
+    removeItem: (key) => { store.delete(key); },
+  };
+}
+
+interface PersistState {
+  target: Component<any> | Behavior;
+  options: PersistOptions;
+  storage: StorageAdapter;
+  version: number;
+  /** Last serialized value written (or read), to skip redundant writes */
+  lastWritten: string | null;
+}
+
+/** Persist bookkeeping — kept off the behavior so it isn't made observable */
+const persists = new WeakMap<PersistBehavior, PersistState>();
+
+/** Storage and parse errors are reported against the persisted instance */
+function report(state: PersistState, error: unknown, held = false): void {
+  reportError(error, { phase: 'persist', name: state.target.constructor.name, isBehavior: isBehavior(state.target), instance: state.target }, held);
+}
+
+function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+  return value instanceof Promise;
+}
+
+/**
+ * The stored value for the current state. A plain function, not a method: behavior
+ * methods become actions, and actions are untracked, so the save watcher would never fire.
+ */
+function serialize(state: PersistState): string {
+  const { target, options, version } = state;
+  const snapshot = getSnapshot(target);
+  const picked: Snapshot = {};
+  for (const key of options.fields ?? Object.keys(snapshot)) {
+    if (!(key in snapshot)) continue;
+    // Nested behaviors only when listed explicitly
+    if (!options.fields && isBehavior((target as any)[key])) continue;
+    picked[key] = snapshot[key];
+  }
+  return JSON.stringify({ version, state: picked } satisfies PersistedState);
+}
+
+class PersistBehavior extends Behavior {
+  /** False until stored state has been read (immediately for synchronous storages) */
+  restored = false;
+
+  onCreate(target: Component<any> | Behavior, options: PersistOptions) {
+    if (!(target instanceof Component) && !isBehavior(target)) {
+      throw new Error('[mobx-mantle] withPersist: Expected a Component or Behavior, usually `withPersist(this, { key })`.');
+    }
+    persists.set(this, {
+      target,
+      options,
+      storage: options.storage ?? localStorageAdapter(),
+      version: options.version ?? 1,
+      lastWritten: null,
+    });
+
+    // Fields are observable (and initialized) only after construction — restore then,
+    // which for Components is still before onCreate and the first render
+    afterInit(target, () => this.restore());
+  }
+
+  /** Write the current state now, skipping the delay */
+  save() {
+    const state = persists.get(this)!;
+    if (!this.restored) return;
+    const value = serialize(state);
+    if (value === state.lastWritten) return;
+    state.lastWritten = value;
+    this.attempt(state, () => state.storage.setItem(state.options.key, value));
+  }
+
+  /** Remove the stored state. The instance keeps its current values. */
+  clear() {
+    const state = persists.get(this)!;
+    state.lastWritten = null;
+    this.attempt(state, () => state.storage.removeItem(state.options.key));
+  }
+
+  onMount() {
+    const state = persists.get(this)!;
+    // Catches up on changes made since the restore (e.g. in onCreate), then follows every change
+    return this.watch(() => serialize(state), () => this.save(), {
+      delay: state.options.delay ?? 300,
+      fireImmediately: true,
+    });
+  }
+
+  onUnmount() {
+    // A delayed write would be dropped along with the watcher
+    this.save();
+  }
+
+  private restore() {
+    const state = persists.get(this)!;
+    let raw: string | null | Promise<string | null>;
+    try {
+      raw = state.storage.getItem(state.options.key);
+    } catch (e) {
+      this.fail(state, e);
+      return;
+    }
+
+    if (isPromise(raw)) {
+      raw.then(
+        (value) => this.apply(state, value),
+        (e) => this.fail(state, e)
+      );
+    } else {
+      this.apply(state, raw);
+    }
+  }
+
+  private apply(state: PersistState, raw: string | null) {
+    try {
+      const snapshot = raw !== null ? this.upgrade(state, JSON.parse(raw)) : null;
+      if (snapshot) applySnapshot(state.target, snapshot);
+    } catch (e) {
+      report(state, e);
+    }
+    // What storage holds — migrated or partial state is rewritten on mount
+    state.lastWritten = raw;
+    runInAction(() => {
+      this.restored = true;
+    });
+  }
+
+  /** Restoring failed: keep the defaults, but still start saving */
+  private fail(state: PersistState, error: unknown) {
+    report(state, error);
+    this.apply(state, null);
+  }
+
+  private upgrade(state: PersistState, stored: PersistedState): Snapshot | null {
+    if (stored.version === state.version) return stored.state;
+    if (!state.options.migrate) return null;
+    return state.options.migrate(stored.state, stored.version);
+  }
+
+  /** Run a storage write; sync throws and async rejections (e.g. quota errors) are reported */
+  private attempt(state: PersistState, fn: () => void | Promise<void>) {
+    try {
+      const result = fn();
+      if (isPromise(result)) result.catch((e) => report(state, e, true));
+    } catch (e) {
+      report(state, e);
+    }
+  }
+}
+
+/**
+ * Persist a Component's or Behavior's observable fields. With a synchronous storage
+ * (the default, localStorage) state is restored before `onCreate` and the first
+ * render; with an async storage, `restored` turns true once it has been read.
+ * Changes are written back in batches.
+ *
+ * @param target - The instance to persist, usually `this`
+ * @param options - `key` (required), `fields`, `storage`, `version`, `migrate`, `delay`
+ *
+ * @example
+ * ```tsx
+ * class Settings extends Component {
+ *   theme = 'light';
+ *   fontSize = 14;
+ *   persist = withPersist(this, { key: 'settings', fields: ['theme', 'fontSize'] });
+ * }
+ * ```
+ */
+export const withPersist = createBehavior(PersistBehavior, { autoObservable: true });
@@ -0,0 +1,69 @@
+import { globalConfig } from './config';
+
+export type InstanceKind = 'component' | 'behavior';
+
+/** A lifecycle event of a tracked instance */
+export interface InstanceEvent {
+  type: 'create' | 'mount' | 'update' | 'unmount';
+  id: number;
+  name: string;
+  kind: InstanceKind;
+}
+
+/** @internal Registry entry of a live instance */
+export interface RegistryEntry {
+  id: number;
+  kind: InstanceKind;
+  mounted: boolean;
+}
+
+/** Live instances, while `devtools` is enabled. Entries leave on unmount (or disposal without mounting). */
+const registry = new Map<object, RegistryEntry>();
+const listeners = new Set<(event: InstanceEvent) => void>();
+let nextId = 1;
+
+function emit(instance: object, entry: RegistryEntry, type: InstanceEvent['type']): void {
+  const event: InstanceEvent = { type, id: entry.id, name: instance.constructor.name, kind: entry.kind };
+  for (const listener of [...listeners]) {
+    try {
+      listener(event);
+    } catch (e) {
+      console.error('[mobx-mantle] Error in devtools listener:', e);
+    }
+  }
+}
+
+/** @internal Start tracking a Component (once initialized) or Behavior (once attached to its owner) */
+export function trackInstance(instance: object, kind: InstanceKind): void {
+  if (!globalConfig.devtools || registry.has(instance)) return;
+  const entry: RegistryEntry = { id: nextId++, kind, mounted: false };
+  registry.set(instance, entry);
+  emit(instance, entry, 'create');
+}
+
+/** @internal Report a lifecycle step of a tracked instance. Unmount stops tracking it. */
+export function reportLifecycle(instance: object, type: 'mount' | 'update' | 'unmount'): void {
+  const entry = registry.get(instance);
+  if (!entry) return;
+  if (type === 'mount') entry.mounted = true;
+  if (type === 'unmount') registry.delete(instance);
+  emit(instance, entry, type);
+}
+
+/** @internal Registry lookups for the inspector */
+export function getRegistryEntry(instance: object): RegistryEntry | undefined {
+  return registry.get(instance);
+}
+
+/** @internal */
+export function getRegisteredInstances(): object[] {
+  return [...registry.keys()];
+}
+
+/** @internal */
+export function addRegistryListener(listener: (event: InstanceEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
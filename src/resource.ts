@@ -0,0 +1,130 @@
+import { makeObservable, observable, action, untracked } from 'mobx';
+import type { SetupContext } from './context';
+import { afterInit, startWatcher } from './context';
+import type { Task } from './task';
+
+/** Options for the resource method */
+export interface ResourceOptions<T> {
+  /** Debounce re-fetching by N milliseconds after the key changes */
+  delay?: number;
+  /** Value before the first fetch completes */
+  initialValue?: T;
+}
+
+/**
+ * Keyed async data owned by a Component or Behavior. Created with `this.resource()`.
+ * `value`, `loading` and `error` are observable. Fetches again when the key changes,
+ * aborting any request still in flight for the previous key.
+ */
+export class Resource<K, T> {
+  /** Latest successfully fetched value (kept while a new key loads) */
+  value: T | undefined;
+  /** True while a fetch is in flight */
+  loading = false;
+  /** Rejection reason of the latest fetch, cleared on success */
+  error: unknown = undefined;
+  /** The key of the latest fetch */
+  key: K | undefined = undefined;
+
+  private current: Task<T> | null = null;
+  private pendingLoad: Promise<T | undefined> | null = null;
+  /** The latest fetch was aborted by an unmount rather than superseded */
+  private interrupted = false;
+
+  constructor(
+    private getKey: () => K,
+    private fetcher: (key: K, signal: AbortSignal) => Promise<T>,
+    private startTask: (fn: (signal: AbortSignal) => Promise<T>) => Task<T>,
+    initialValue?: T
+  ) {
+    this.value = initialValue;
+
+    makeObservable<Resource<K, T>, 'load'>(this, {
+      value: observable.ref,
+      loading: observable,
+      error: observable.ref,
+      key: observable.ref,
+      load: action,
+      refetch: action.bound,
+    });
+  }
+
+  /** Settles when the latest fetch does. Never rejects. */
+  get promise(): Promise<T | undefined> {
+    return this.pendingLoad ?? Promise.resolve(this.value);
+  }
+
+  /** Fetch again for the current key. Resolves with the value, or undefined on failure. */
+  refetch(): Promise<T | undefined> {
+    return this.load(untracked(this.getKey));
+  }
+
+  /** @internal Fetch again if an unmount cut the latest fetch short (the owner remounted) */
+  resume(): void {
+    if (this.interrupted || this.current?.aborted) this.refetch();
+  }
+
+  /** @internal */
+  load(key: K): Promise<T | undefined> {
+    // Stale request: its result would be for the wrong key
+    this.current?.abort();
+    this.key = key;
+    this.interrupted = false;
+
+    // An undefined key means "nothing to fetch yet"
+    if (key === undefined) {
+      this.current = null;
+      this.pendingLoad = null;
+      this.loading = false;
+      return Promise.resolve(undefined);
+    }
+
+    this.loading = true;
+    const task = this.startTask((signal) => this.fetcher(key, signal));
+    this.current = task;
+
+    const settled = task.promise.then(action((value: T | undefined) => {
+      // Superseded by a newer key, or aborted on unmount
+      if (this.current !== task) return undefined;
+      this.current = null;
+      this.pendingLoad = null;
+      this.loading = false;
+      if (task.aborted) {
+        this.interrupted = true;
+        return undefined;
+      }
+
+      if (task.error !== undefined) {
+        this.error = task.error;
+      } else {
+        this.value = value;
+        this.error = undefined;
+      }
+      return value;
+    }));
+    this.pendingLoad = settled;
+    return settled;
+  }
+}
+
+/** @internal Create a resource for a Component or Behavior, fetching once the owner is observable */
+export function createResource<K, T>(
+  owner: SetupContext,
+  key: () => K,
+  fetcher: (key: K, signal: AbortSignal) => Promise<T>,
+  options?: ResourceOptions<T>
+): Resource<K, T> {
+  const resource = new Resource(key, fetcher, (fn) => owner.task(fn), options?.initialValue);
+
+  afterInit(owner, () => {
+    owner.watch(key, (k) => resource.load(k), { delay: options?.delay });
+    resource.load(untracked(key));
+    // The watch above restarts on remount without firing; pick up a fetch the unmount aborted
+    startWatcher(owner, (restart) => {
+      if (restart) resource.resume();
+      return () => {};
+    });
+  });
+
+  return resource;
+}
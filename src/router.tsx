@@ -0,0 +1,481 @@
+import { makeObservable, observable, computed, action } from 'mobx';
+import type { AnchorHTMLAttributes, MouseEvent } from 'react';
+import { Component, getLeaveGuards } from './component';
+import { reportError } from './config';
+import { createComponent } from './mantle';
+
+/** Converts a search value to a declared type. Undeclared values stay strings. */
+export type SearchType = StringConstructor | NumberConstructor | BooleanConstructor;
+
+/** A route pattern with its param and search types. Create with Route(). */
+export interface RouteDefinition<P = {}, S = {}> {
+  readonly pattern: string;
+  /** Search params to convert from strings, and to what */
+  readonly searchTypes?: { readonly [K in keyof S]?: SearchType };
+  /** @internal Phantom fields carrying the param and search types */
+  readonly _params?: P;
+  readonly _search?: S;
+}
+
+export type Routes = Record<string, RouteDefinition<any, any>>;
+
+export type ParamsOf<D> = D extends RouteDefinition<infer P, any> ? P : never;
+export type SearchOf<D> = D extends RouteDefinition<any, infer S> ? S : never;
+
+/**
+ * Define a route. `:name` segments are params; a trailing `/*` matches the path and
+ * everything below it, for layouts that render their own nested `match()`.
+ *
+ * Search values are strings unless `search` declares a type for them, so `?zip=01234`
+ * keeps its leading zero. Declared numbers that don't parse are left out.
+ *
+ * @example
+ * ```tsx
+ * const routes = {
+ *   home: Route('/'),
+ *   users: Route('/users/*'),
+ *   user: Route<{ id: string }, { tab: 'posts' | 'likes'; page: number }>('/users/:id', {
+ *     search: { page: Number },
+ *   }),
+ * };
+ * ```
+ */
+export function Route<P extends Record<string, string> = {}, S extends Record<string, unknown> = {}>(
+  pattern: string,
+  options: { search?: { [K in keyof S]?: SearchType } } = {}
+): RouteDefinition<P, S> {
+  return { pattern, searchTypes: options.search };
+}
+
+/**
+ * Where the router reads and writes locations (path plus search string).
+ * `browserHistory()` uses the address bar; `memoryHistory()` keeps a list, for tests and servers.
+ */
+export interface RouterHistory {
+  readonly location: string;
+  push(url: string): void;
+  replace(url: string): void;
+  go(delta: number): void;
+  /** Called after back/forward moved `delta` entries (0 when unknown) */
+  listen(listener: (location: string, delta: number) => void): () => void;
+}
+
+export interface MemoryHistory extends RouterHistory {
+  readonly entries: string[];
+  readonly index: number;
+}
+
+/** History kept in memory. Use it for tests, server rendering, and embedded apps. */
+export function memoryHistory(initialUrl = '/'): MemoryHistory {
+  const entries = [initialUrl];
+  let index = 0;
+  const listeners = new Set<(location: string, delta: number) => void>();
+
+  return {
+    get location() {
+      return entries[index];
+    },
+    get entries() {
+      return entries.slice();
+    },
+    get index() {
+      return index;
+    },
+    push(url) {
+      entries.splice(index + 1, entries.length, url);
+      index++;
+    },
+    replace(url) {
+      entries[index] = url;
+    },
+    go(delta) {
+      const next = Math.max(0, Math.min(entries.length - 1, index + delta));
+      if (next === index) return;
+      const moved = next - index;
+      index = next;
+      for (const listener of [...listeners]) listener(entries[index], moved);
+    },
+    listen(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/** History backed by the browser's address bar and back/forward buttons */
+export function browserHistory(): RouterHistory {
+  const location = () => window.location.pathname + window.location.search;
+  // Entry positions in history.state tell how far back/forward moved, so a blocked move can be undone
+  let index: number = window.history.state?.mantleIndex ?? 0;
+  window.history.replaceState({ ...window.history.state, mantleIndex: index }, '');
+
+  return {
+    get location() {
+      return location();
+    },
+    push(url) {
+      index++;
+      window.history.pushState({ mantleIndex: index }, '', url);
+    },
+    replace(url) {
+      window.history.replaceState({ mantleIndex: index }, '', url);
+    },
+    go(delta) {
+      window.history.go(delta);
+    },
+    listen(listener) {
+      const onPopState = (event: PopStateEvent) => {
+        const next: number | undefined = event.state?.mantleIndex;
+        const delta = next === undefined ? 0 : next - index;
+        index = next ?? index;
+        listener(location(), delta);
+      };
+      window.addEventListener('popstate', onPopState);
+      return () => window.removeEventListener('popstate', onPopState);
+    },
+  };
+}
+
+/** Options for the Router */
+export interface RouterOptions {
+  /** Default: browserHistory() in the browser, memoryHistory() elsewhere */
+  history?: RouterHistory;
+}
+
+/** The matched route */
+export interface RouteMatch<R extends Routes> {
+  name: keyof R & string;
+  params: Record<string, string>;
+}
+
+type MatchHandlers<R extends Routes, T> = {
+  [K in keyof R]?: (params: ParamsOf<R[K]>, search: Partial<SearchOf<R[K]>>) => T;
+} & { fallback?: () => T };
+
+/** Props of `router.Link`, typed per route */
+export type LinkProps<R extends Routes> = {
+  [K in keyof R]: {
+    to: K;
+    params?: ParamsOf<R[K]>;
+    search?: Partial<SearchOf<R[K]>>;
+    /** Replace the current history entry instead of pushing one */
+    replace?: boolean;
+    /** Added to className while the route is active */
+    activeClassName?: string;
+  };
+}[keyof R] & Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'>;
+
+function compilePattern(pattern: string): RegExp {
+  const prefix = pattern.endsWith('/*');
+  const path = prefix ? pattern.slice(0, -2) : pattern;
+  const source = path
+    .split('/')
+    .map(segment => segment.startsWith(':')
+      ? `(?<${segment.slice(1)}>[^/]+)`
+      : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('/');
+  return new RegExp(`^${source}${prefix ? '(?:/.*)?' : '/?'}$`);
+}
+
+function splitUrl(url: string): { path: string; query: Record<string, string> } {
+  const [path, search = ''] = url.split('#')[0].split('?');
+  return { path: path || '/', query: Object.fromEntries(new URLSearchParams(search)) };
+}
+
+function parseSearch(query: Record<string, string>, types: Record<string, SearchType> = {}): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(query)) {
+    const type = types[key];
+    if (type === Number) {
+      const number = Number(value);
+      if (value.trim() !== '' && !Number.isNaN(number)) result[key] = number;
+    } else if (type === Boolean) {
+      result[key] = value !== 'false';
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function buildUrl(path: string, query: Record<string, unknown>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) search.set(key, String(value));
+  }
+  const string = search.toString();
+  return string ? `${path}?${string}` : path;
+}
+
+/**
+ * Ask mounted Components' onBeforeLeave whether navigation may proceed.
+ * Synchronous unless a guard returns a promise. A throwing guard is reported and doesn't block.
+ */
+function askLeaveGuards(to: string): boolean | Promise<boolean> {
+  const pending: Promise<boolean>[] = [];
+  for (const vm of getLeaveGuards()) {
+    const report = (e: unknown) => {
+      reportError(e, { phase: 'onBeforeLeave', name: vm.constructor.name, isBehavior: false, instance: vm });
+      return true;
+    };
+    try {
+      const result = vm.onBeforeLeave!(to);
+      if (result instanceof Promise) pending.push(result.catch(report));
+      else if (result === false) return false;
+    } catch (e) {
+      report(e);
+    }
+  }
+  if (pending.length === 0) return true;
+  return Promise.all(pending).then(results => results.every(result => result !== false));
+}
+
+/**
+ * Observable routing state over a history. Read `path`, `current`, `params()` and
+ * `getSearch()` anywhere — in render, getters or `watch` — and they update on navigation.
+ *
+ * @example
+ * ```tsx
+ * export const router = new Router(routes);
+ *
+ * class App extends Component {
+ *   render() {
+ *     return router.match({
+ *       home: () => <HomePage />,
+ *       user: ({ id }) => <UserPage id={id} />,
+ *       fallback: () => <NotFound />,
+ *     });
+ *   }
+ * }
+ * ```
+ */
+export class Router<R extends Routes> {
+  /** Current pathname */
+  path = '/';
+  /** True while onBeforeLeave guards are deciding */
+  navigating = false;
+
+  /** A link to a route of this router, which navigates without reloading the page */
+  readonly Link: ReturnType<typeof createLink<R>>;
+  readonly history: RouterHistory;
+
+  private query: Record<string, string> = {};
+  private patterns: [keyof R & string, RegExp][];
+  /** Identifies the latest navigation, so one whose guards were overtaken is dropped */
+  private attempt = 0;
+  /** Set while undoing a blocked back/forward, whose own pop must be ignored */
+  private reverting = false;
+  private unlisten: () => void;
+
+  constructor(readonly routes: R, options: RouterOptions = {}) {
+    this.history = options.history ?? (typeof window !== 'undefined' ? browserHistory() : memoryHistory());
+    this.patterns = Object.entries(routes).map(([name, route]) => [name, compilePattern(route.pattern)]);
+
+    makeObservable<Router<R>, 'query' | 'sync' | 'setNavigating'>(this, {
+      path: observable,
+      navigating: observable,
+      query: observable.ref,
+      current: computed,
+      search: computed,
+      sync: action,
+      setNavigating: action,
+    });
+
+    this.sync(this.history.location);
+    this.unlisten = this.history.listen((location, delta) => this.onPop(location, delta));
+    this.Link = createLink(this);
+  }
+
+  /**
+   * The matched route. Exact routes win over prefix (`/*`) routes; otherwise the
+   * first match in definition order.
+   */
+  get current(): RouteMatch<R> | null {
+    let prefixMatch: RouteMatch<R> | null = null;
+    for (const [name, regex] of this.patterns) {
+      const match = this.path.match(regex);
+      if (!match) continue;
+      const result = { name, params: decodeParams(match.groups) };
+      if (!this.routes[name].pattern.endsWith('/*')) return result;
+      prefixMatch ??= result;
+    }
+    return prefixMatch;
+  }
+
+  /** Search params, as strings */
+  get search(): Record<string, string> {
+    return this.query;
+  }
+
+  /** Params of the current route, typed for route K */
+  params<K extends keyof R>(): ParamsOf<R[K]> {
+    return (this.current?.params ?? {}) as ParamsOf<R[K]>;
+  }
+
+  /**
+   * Search params, converted to the types route K declares. Pass the route's name;
+   * without it, the types of the current route apply.
+   */
+  getSearch<K extends keyof R>(name?: K): Partial<SearchOf<R[K]>> {
+    const route = name ?? this.current?.name;
+    const types = route === undefined ? undefined : this.routes[route].searchTypes;
+    return parseSearch(this.query, types as Record<string, SearchType>) as Partial<SearchOf<R[K]>>;
+  }
+
+  /** Whether the route matches the current path — prefix routes match everything below them */
+  isActive(name: keyof R): boolean {
+    const entry = this.patterns.find(([key]) => key === name);
+    return entry !== undefined && entry[1].test(this.path);
+  }
+
+  /** The URL for a route */
+  href<K extends keyof R>(name: K, params?: ParamsOf<R[K]>, search?: Partial<SearchOf<R[K]>>): string {
+    let path = this.routes[name].pattern.replace(/\/\*$/, '') || '/';
+    for (const [key, value] of Object.entries(params ?? {})) {
+      path = path.replace(`:${key}`, encodeURIComponent(String(value)));
+    }
+    return buildUrl(path, search ?? {});
+  }
+
+  /** Navigate to a route. Resolves with false if an onBeforeLeave guard blocked it. */
+  go<K extends keyof R>(name: K, params?: ParamsOf<R[K]>, search?: Partial<SearchOf<R[K]>>): Promise<boolean> {
+    return this.navigate(this.href(name, params, search));
+  }
+
+  /** Navigate to a URL. Resolves with false if an onBeforeLeave guard blocked it. */
+  navigate(url: string, options: { replace?: boolean } = {}): Promise<boolean> {
+    const attempt = ++this.attempt;
+    const commit = (allowed: boolean) => {
+      if (attempt !== this.attempt) return false;
+      this.setNavigating(false);
+      if (!allowed) return false;
+      if (options.replace) this.history.replace(url);
+      else this.history.push(url);
+      this.sync(url);
+      return true;
+    };
+
+    const allowed = this.leaving(url) ? askLeaveGuards(url) : true;
+    if (typeof allowed === 'boolean') return Promise.resolve(commit(allowed));
+    this.setNavigating(true);
+    return allowed.then(commit);
+  }
+
+  /** Merge into the search params (undefined removes a key). Replaces the history entry; guards are not asked. */
+  setSearch(updates: Record<string, unknown>): void {
+    const url = buildUrl(this.path, { ...this.query, ...updates });
+    this.history.replace(url);
+    this.sync(url);
+  }
+
+  back(): void {
+    this.history.go(-1);
+  }
+
+  forward(): void {
+    this.history.go(1);
+  }
+
+  /**
+   * Render by route. Only routes with a handler are considered, so a layout can
+   * match its own nested routes below a prefix route.
+   */
+  match<T>(handlers: MatchHandlers<R, T>): T | null {
+    for (const [name, regex] of this.patterns) {
+      const handler = handlers[name];
+      if (!handler) continue;
+      const match = this.path.match(regex);
+      if (match) return handler(decodeParams(match.groups) as any, this.getSearch(name) as any);
+    }
+    return handlers.fallback?.() ?? null;
+  }
+
+  /** Stop following the history */
+  dispose(): void {
+    this.unlisten();
+  }
+
+  private leaving(url: string): boolean {
+    return splitUrl(url).path !== this.path;
+  }
+
+  private setNavigating(value: boolean) {
+    this.navigating = value;
+  }
+
+  private sync(url: string) {
+    const { path, query } = splitUrl(url);
+    this.path = path;
+    this.query = query;
+  }
+
+  /** Back/forward already moved the history: follow it, or move it back if a guard objects */
+  private onPop(location: string, delta: number) {
+    if (this.reverting) {
+      this.reverting = false;
+      return;
+    }
+    const attempt = ++this.attempt;
+    const finish = (allowed: boolean) => {
+      if (attempt !== this.attempt) return;
+      this.setNavigating(false);
+      if (allowed) {
+        this.sync(location);
+      } else if (delta !== 0) {
+        this.reverting = true;
+        this.history.go(-delta);
+      }
+    };
+
+    const allowed = this.leaving(location) ? askLeaveGuards(location) : true;
+    if (typeof allowed === 'boolean') {
+      finish(allowed);
+    } else {
+      this.setNavigating(true);
+      allowed.then(finish);
+    }
+  }
+}
+
+function decodeParams(groups: Record<string, string> | undefined): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(groups ?? {})) params[key] = decodeURIComponent(value);
+  return params;
+}
+
+/** Build the Link component bound to a router */
+function createLink<R extends Routes>(router: Router<R>) {
+  class Link extends Component<LinkProps<R>> {
+    get href() {
+      const { to, params, search } = this.props;
+      return router.href(to, params as any, search as any);
+    }
+
+    onClick(event: MouseEvent<HTMLAnchorElement>) {
+      this.props.onClick?.(event);
+      // Let the browser handle modified clicks (new tab, download) and other targets
+      if (event.defaultPrevented || event.button !== 0) return;
+      if (event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+      if (this.props.target && this.props.target !== '_self') return;
+      event.preventDefault();
+      router.navigate(this.href, { replace: this.props.replace });
+    }
+
+    render() {
+      const { to, params, search, replace, activeClassName, className, ...rest } = this.props;
+      const active = activeClassName && router.isActive(to);
+      return (
+        <a
+          {...rest}
+          href={this.href}
+          onClick={this.onClick}
+          className={[className, active && activeClassName].filter(Boolean).join(' ') || undefined}
+        />
+      );
+    }
+  }
+
+  return createComponent(Link, { autoObservable: true });
+}
@@ -0,0 +1,90 @@
+import type { ReactNode } from 'react';
+import { renderToString } from 'react-dom/server';
+import { disposeInstance } from './component';
+import { getSnapshot } from './snapshot';
+import { Hydrate, ServerCollectorContext, type HydrationState, type ServerCollector } from './hydration';
+
+/** Result of renderToStringWithState */
+export interface ServerRenderResult {
+  /** The rendered markup */
+  html: string;
+  /** Each ViewModel's observable state, for `<Hydrate state={...}>` on the client */
+  state: HydrationState;
+}
+
+/**
+ * Render to HTML on the server, running `onServerPrefetch()` first. Components
+ * that define it are prefetched, their state is captured, and the tree renders
+ * again with that state. This repeats until no new prefetches start, so children
+ * revealed by loaded data get prefetched too. Layout/mount lifecycles never run.
+ *
+ * @param element - The same element the client hydrates (without `<Hydrate>`)
+ * @param options - `maxPasses` caps the number of render passes (default: 5)
+ *
+ * @example
+ * ```tsx
+ * const { html, state } = await renderToStringWithState(<App />);
+ * res.send(`<div id="root">${html}</div>${serializeState(state)}`);
+ * ```
+ */
+export async function renderToStringWithState(
+  element: ReactNode,
+  options: { maxPasses?: number } = {}
+): Promise<ServerRenderResult> {
+  const { maxPasses = 5 } = options;
+  const prefetched = new Set<string>();
+  let state: HydrationState = {};
+
+  for (let pass = 1; ; pass++) {
+    const collector: ServerCollector = { prefetched, prefetches: [], instances: new Map() };
+    const html = renderToString(
+      <ServerCollectorContext.Provider value={collector}>
+        <Hydrate state={state}>{element}</Hydrate>
+      </ServerCollectorContext.Provider>
+    );
+
+    await Promise.all(collector.prefetches);
+
+    state = {};
+    for (const [id, vm] of collector.instances) {
+      state[id] = getSnapshot(vm);
+      disposeInstance(vm);
+    }
+
+    // Nothing new was fetched, so this pass already rendered the final data
+    if (collector.prefetches.length === 0) return { html, state };
+
+    if (pass >= maxPasses) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn(
+          `[mobx-mantle] renderToStringWithState: still prefetching after ${maxPasses} passes. ` +
+          `Rendering with the data loaded so far.`
+        );
+      }
+      return renderFinal(element, state);
+    }
+  }
+}
+
+/** Render once more with the captured state, without starting further prefetches */
+function renderFinal(element: ReactNode, state: HydrationState): ServerRenderResult {
+  const html = renderToString(<Hydrate state={state}>{element}</Hydrate>);
+  return { html, state };
+}
+
+/**
+ * Serialize hydration state into a `<script>` tag that assigns it to a global,
+ * escaped so it is safe to embed in HTML.
+ *
+ * @param state - The state from renderToStringWithState
+ * @param globalName - Global to assign (default: `__MANTLE_STATE__`)
+ */
+export function serializeState(state: HydrationState, globalName = '__MANTLE_STATE__'): string {
+  const json = JSON.stringify(state)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+  return `<script>window[${JSON.stringify(globalName)}]=${json}</script>`;
+}
+
+export type { HydrationState } from './hydration';
@@ -0,0 +1,139 @@
+import { isComputedProp, isObservableArray, isObservableProp, runInAction, toJS } from 'mobx';
+import { Component, componentStateKeys, isComponentRef } from './component';
+import { isBehavior, isRefLike, behaviorStateKeys } from './behavior';
+import { getTransientKeys } from './decorators';
+import { isInjected } from './inject';
+import { getSetupState, isWritableRef } from './context';
+
+/** Plain-JSON state of a Component or Behavior: field name → value (nested behaviors as snapshots) */
+export type Snapshot = Record<string, unknown>;
+
+/** Whether a value survives a JSON round trip unchanged (no class instances, functions or Maps) */
+function isPlainData(value: unknown): boolean {
+  if (value === null) return true;
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return true;
+    case 'number':
+      return Number.isFinite(value);
+    case 'object':
+      if (Array.isArray(value) || isObservableArray(value)) {
+        return (value as unknown[]).every(isPlainData);
+      }
+      {
+        const proto = Object.getPrototypeOf(value);
+        if (proto !== Object.prototype && proto !== null) return false;
+      }
+      return Object.values(value as object).every(isPlainData);
+    default:
+      return false;
+  }
+}
+
+function isBehaviorList(value: unknown): value is object[] {
+  return (Array.isArray(value) || isObservableArray(value)) && value.length > 0 && value.every(isBehavior);
+}
+
+/** Snapshot fields: the keys the observable setup discovers, minus @transient and non-observable ones */
+function snapshotKeys(instance: object, fnName: string): string[] {
+  let keys: string[];
+  if (instance instanceof Component) {
+    keys = componentStateKeys(instance);
+  } else if (isBehavior(instance)) {
+    keys = behaviorStateKeys(instance);
+  } else {
+    throw new Error(`[mobx-mantle] ${fnName}: Expected a Component or Behavior instance.`);
+  }
+  const transient = getTransientKeys(instance);
+  return keys.filter(key => !transient?.has(key) && isObservableProp(instance, key));
+}
+
+/** Snapshot fields of a defineBehavior() setup result: its ref()s, behaviors and observable fields */
+function setupStateKeys(state: object): string[] {
+  return Object.getOwnPropertyNames(state).filter(key => {
+    if (isComputedProp(state, key)) return false;
+    const value = (state as any)[key];
+    return isWritableRef(value) || isBehavior(value) || isBehaviorList(value) || isObservableProp(state, key);
+  });
+}
+
+/** Where an instance's state lives: a defineBehavior() setup result, or the instance itself */
+function stateTarget(instance: object, fnName: string): [target: object, keys: string[]] {
+  const state = getSetupState(instance);
+  return state ? [state, setupStateKeys(state)] : [instance, snapshotKeys(instance, fnName)];
+}
+
+/**
+ * Capture a Component's or Behavior's observable state as plain JSON. Nested
+ * behaviors (including arrays of behaviors) are captured recursively. Refs,
+ * injected values, @transient fields, and values that don't survive JSON
+ * (class instances, Maps, functions) are skipped. A defineBehavior() behavior
+ * is captured through the object its setup returned: `ref()` values and
+ * `reactive()` fields.
+ *
+ * @example
+ * ```ts
+ * const saved = getSnapshot(vm);
+ * localStorage.setItem('draft', JSON.stringify(saved));
+ * ```
+ */
+export function getSnapshot(instance: Component<any> | object): Snapshot {
+  const snapshot: Snapshot = {};
+  const [target, keys] = stateTarget(instance, 'getSnapshot');
+  for (const key of keys) {
+    const value = (target as any)[key];
+
+    if (isWritableRef(value)) {
+      if (isPlainData(value.value)) snapshot[key] = toJS(value.value);
+    } else if (isBehavior(value)) {
+      snapshot[key] = getSnapshot(value);
+    } else if (isBehaviorList(value)) {
+      snapshot[key] = value.map(behavior => getSnapshot(behavior));
+    } else if (isComponentRef(value) || isRefLike(value) || isInjected(value)) {
+      continue;
+    } else if (isPlainData(value)) {
+      snapshot[key] = toJS(value);
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Restore state captured with getSnapshot(), in a single action. Fields missing
+ * from the snapshot keep their current value; unknown and @transient keys are ignored.
+ * Nested behaviors are restored in place, so their identity is preserved.
+ *
+ * @example
+ * ```ts
+ * const saved = localStorage.getItem('draft');
+ * if (saved) applySnapshot(vm, JSON.parse(saved));
+ * ```
+ */
+export function applySnapshot(instance: Component<any> | object, snapshot: Snapshot): void {
+  const [target, targetKeys] = stateTarget(instance, 'applySnapshot');
+  const keys = new Set(targetKeys);
+  runInAction(() => {
+    for (const [key, value] of Object.entries(snapshot)) {
+      if (!keys.has(key)) continue;
+      const current = (target as any)[key];
+
+      if (isWritableRef(current)) {
+        if (current.value === undefined || isPlainData(current.value)) current.value = value;
+      } else if (isBehavior(current)) {
+        if (value && typeof value === 'object') applySnapshot(current, value as Snapshot);
+      } else if (isBehaviorList(current)) {
+        if (Array.isArray(value)) {
+          current.forEach((behavior, i) => {
+            if (value[i] && typeof value[i] === 'object') applySnapshot(behavior, value[i]);
+          });
+        }
+      } else if (isComponentRef(current) || isRefLike(current) || isInjected(current)) {
+        continue;
+      } else if (current === undefined || isPlainData(current)) {
+        // Only fields getSnapshot would capture — never overwrite refs, resources or other instances
+        (target as any)[key] = value;
+      }
+    }
+  });
+}
@@ -0,0 +1,98 @@
+import { isValidElement } from 'react';
+import { timers } from './config';
+import { type Component, setInstanceParent } from './component';
+import type { LifecycleHost } from './host';
+
+/**
+ * How long a suspended, never-committed instance is kept after the promise it
+ * suspended on settles. React normally retries well within this window.
+ */
+const ABANDONED_TIMEOUT = 10_000;
+
+interface PendingInstance {
+  host: LifecycleHost<any>;
+  /** Props of the render that suspended */
+  props: object;
+  parent: Component<any> | null;
+  /** The server request it belongs to (null in the browser), so concurrent requests don't trade instances */
+  scope: object | null;
+}
+
+/**
+ * Instances whose first render suspended, oldest first. React throws away the hooks
+ * of a render that never committed — useId() included, outside hydration — so the
+ * retry is matched to its instance by class, props and parent. Without this it would
+ * construct a new instance, start its resources over and suspend again.
+ */
+const pendingInstances: PendingInstance[] = [];
+
+/** @internal Whether a value thrown during render is a Suspense promise */
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return value !== null && typeof value === 'object' && typeof (value as any).then === 'function';
+}
+
+/**
+ * Whether two props objects come from the same element. A parent that renders again
+ * passes fresh callbacks and children, so those only have to be of the same kind.
+ */
+function sameElementProps(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every(key => {
+    const x = a[key];
+    const y = b[key];
+    if (x === y) return true;
+    if (typeof x === 'function' && typeof y === 'function') return true;
+    return isValidElement(x) && isValidElement(y) && x.type === y.type;
+  });
+}
+
+/** @internal Take back the instance a suspended render of the same element left behind */
+export function claimPendingInstance<C extends Component<any>>(
+  ComponentClass: new () => C,
+  props: object,
+  parent: Component<any> | null,
+  scope: object | null
+): LifecycleHost<C> | null {
+  const index = pendingInstances.findIndex(pending =>
+    pending.scope === scope &&
+    !pending.host.isStale(ComponentClass) &&
+    // A parent that never committed either is rendered again as a new instance
+    (pending.parent === parent || pending.parent?._mountState === 'created') &&
+    sameElementProps(pending.props as Record<string, unknown>, props as Record<string, unknown>)
+  );
+  if (index === -1) return null;
+  const [pending] = pendingInstances.splice(index, 1);
+  if (pending.parent !== parent) setInstanceParent(pending.host.vm, parent);
+  return pending.host;
+}
+
+/**
+ * @internal Keep an uncommitted instance across a suspended render. If no retry
+ * claims it soon after the promise settles, the render was abandoned: dispose it.
+ */
+export function holdPendingInstance(
+  host: LifecycleHost<any>,
+  props: object,
+  parent: Component<any> | null,
+  scope: object | null,
+  promise: PromiseLike<unknown>
+): void {
+  // Committed instances live in useRef, which React keeps across suspensions
+  if (host.vm._mountState !== 'created') return;
+  // Held once per suspension: a retry that claims it and suspends again holds it anew
+  if (pendingInstances.some(pending => pending.host === host)) return;
+
+  const pending: PendingInstance = { host, props, parent, scope };
+  pendingInstances.push(pending);
+
+  const expire = () => {
+    timers.setTimeout(() => {
+      const index = pendingInstances.indexOf(pending);
+      if (index === -1) return;
+      pendingInstances.splice(index, 1);
+      host.unmount();
+    }, ABANDONED_TIMEOUT);
+  };
+  promise.then(expire, expire);
+}
@@ -0,0 +1,123 @@
+import { makeObservable, observable, action } from 'mobx';
+
+/** Report an async error without letting a throwing handler become a rejection nobody handles */
+function reportSafely(onError: (error: unknown) => void, error: unknown): void {
+  try {
+    onError(error);
+  } catch (e) {
+    console.error('[mobx-mantle] Error in onError:', e);
+  }
+}
+
+/**
+ * An async operation scoped to a Component or Behavior. Created with `this.task()`.
+ * `pending`, `value` and `error` are observable. The task's signal aborts when its
+ * owner unmounts, or when `abort()` is called.
+ */
+export class Task<T> {
+  /** True until the task settles or is aborted */
+  pending = true;
+  /** The resolved value, once settled successfully */
+  value: T | undefined = undefined;
+  /** The rejection reason, if the task failed (aborts are not errors) */
+  error: unknown = undefined;
+
+  /** Aborts when the owner unmounts or abort() is called */
+  readonly signal: AbortSignal;
+  /** Settles with the value, or undefined if the task failed or was aborted. Never rejects. */
+  readonly promise: Promise<T | undefined>;
+
+  private controller = new AbortController();
+
+  constructor(fn: (signal: AbortSignal) => Promise<T>, onError: (error: unknown) => void) {
+    this.signal = this.controller.signal;
+
+    makeObservable<Task<T>, 'settle' | 'fail'>(this, {
+      pending: observable,
+      value: observable.ref,
+      error: observable.ref,
+      abort: action.bound,
+      settle: action,
+      fail: action,
+    });
+
+    let started: Promise<T>;
+    try {
+      started = Promise.resolve(fn(this.signal));
+    } catch (e) {
+      started = Promise.reject(e);
+    }
+
+    this.promise = started.then(
+      (value) => {
+        if (this.signal.aborted) return undefined;
+        this.settle(value);
+        return value;
+      },
+      (error) => {
+        // Once aborted, rejections (usually an AbortError) are expected — not reported
+        if (this.signal.aborted) return undefined;
+        this.fail(error);
+        reportSafely(onError, error);
+        return undefined;
+      }
+    );
+  }
+
+  /** Whether the task was aborted */
+  get aborted(): boolean {
+    return this.signal.aborted;
+  }
+
+  /** Abort the task. Its result (or rejection) is ignored from now on. */
+  abort(): void {
+    if (this.signal.aborted) return;
+    this.controller.abort();
+    this.pending = false;
+  }
+
+  private settle(value: T): void {
+    this.value = value;
+    this.pending = false;
+  }
+
+  private fail(error: unknown): void {
+    this.error = error;
+    this.pending = false;
+  }
+}
+
+/**
+ * @internal Start a task owned by a Component or Behavior: the task aborts when the
+ * owner's watchers are disposed (on unmount) and drops out of the list once settled.
+ */
+export function startTask<T>(
+  disposers: (() => void)[],
+  fn: (signal: AbortSignal) => Promise<T>,
+  onError: (error: unknown) => void
+): Task<T> {
+  const task = new Task(fn, onError);
+  const abort = () => task.abort();
+  disposers.push(abort);
+  task.promise.then(() => {
+    const idx = disposers.indexOf(abort);
+    if (idx !== -1) disposers.splice(idx, 1);
+  });
+  return task;
+}
+
+/**
+ * @internal Track the promise returned by an async lifecycle method: rejections are
+ * reported unless the lifecycle's signal was aborted (the owner unmounted).
+ */
+export function trackLifecyclePromise(
+  result: unknown,
+  signal: AbortSignal,
+  onError: (error: unknown) => void
+): boolean {
+  if (!(result instanceof Promise)) return false;
+  result.catch((error) => {
+    if (!signal.aborted) reportSafely(onError, error);
+  });
+  return true;
+}
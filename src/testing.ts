@@ -0,0 +1,146 @@
+import { timers, type ErrorPolicy } from './config';
+import type { Component, PropsOf } from './component';
+import { createLifecycleHost } from './host';
+import type { Injector } from './inject';
+
+/**
+ * A headless Component instance, driven step by step without React.
+ */
+export interface TestComponent<C extends Component<any>> {
+  /** The ViewModel instance, created exactly as createComponent would */
+  vm: C;
+  /** Whether mount() has run and unmount() has not */
+  readonly mounted: boolean;
+  /** Run behavior + component onLayoutMount (before paint in React) */
+  layoutMount(): void;
+  /** Run behavior + component onMount (after paint in React) */
+  mount(): void;
+  /** Run onUpdate, as React does after every render */
+  update(): void;
+  /** Run cleanups, onUnmount, dispose watchers and unmount behaviors */
+  unmount(): void;
+  /**
+   * Merge new props into the current props and notify observers.
+   * If mounted, onUpdate runs afterwards, as it would after a re-render.
+   */
+  setProps(props: Partial<PropsOf<C>>): void;
+}
+
+/**
+ * Instantiate a Component subclass headlessly, the same way createComponent does:
+ * props box, behavior collection, auto-observable annotations and `onCreate`
+ * with reactive props. Lifecycles are not run until you step through them.
+ *
+ * @example
+ * ```ts
+ * const t = createTestComponent(Todo, { title: 'Tasks' });
+ * t.mount();
+ * t.vm.input = 'Write tests';
+ * t.vm.add();
+ * expect(t.vm.todos).toHaveLength(1);
+ * t.unmount();
+ * ```
+ */
+export function createTestComponent<C extends Component<any>>(
+  ComponentClass: new () => C,
+  props: PropsOf<C> = {} as PropsOf<C>,
+  options: {
+    autoObservable?: boolean;
+    /** Values for `this.inject()`, e.g. `new Injector().provide(StoreToken, store)` */
+    injector?: Injector;
+    /** Parent ViewModel for `getParent()`/`findAncestor()` */
+    parent?: Component<any>;
+    /** e.g. 'rethrow', so lifecycle errors fail the test */
+    errorPolicy?: ErrorPolicy;
+  } = {}
+): TestComponent<C> {
+  const host = createLifecycleHost(ComponentClass, props, options);
+
+  return {
+    vm: host.vm,
+    get mounted() {
+      return host.mounted;
+    },
+    layoutMount: () => host.layoutMount(),
+    mount: () => host.mount(),
+    update: () => host.update(),
+    unmount: () => host.unmount(),
+    setProps(next) {
+      host.setProps({ ...host.vm.props, ...next });
+      if (host.mounted) host.update();
+    },
+  };
+}
+
+/**
+ * Controls the timers behind `watch`/`effect` `delay` options.
+ */
+export interface FakeTimers {
+  /** Current fake time in milliseconds */
+  readonly now: number;
+  /** Number of timers waiting to fire */
+  readonly pending: number;
+  /** Move time forward, firing every timer that falls due (including ones scheduled meanwhile) */
+  advance(ms: number): void;
+  /** Fire all pending timers, however far in the future */
+  flush(): void;
+  /** Restore real timers */
+  restore(): void;
+}
+
+/**
+ * Replace the timer used for debounced `watch`/`effect` callbacks with a manual clock.
+ * Call `restore()` when done (e.g. in `afterEach`).
+ *
+ * @example
+ * ```ts
+ * const clock = installFakeTimers();
+ * t.vm.query = 'mantle';
+ * clock.advance(300); // debounced watcher fires
+ * clock.restore();
+ * ```
+ */
+export function installFakeTimers(): FakeTimers {
+  const original = timers.setTimeout;
+  let now = 0;
+  let seq = 0;
+  let queue: { at: number; seq: number; fn: () => void }[] = [];
+
+  timers.setTimeout = (fn, ms) => {
+    queue.push({ at: now + ms, seq: seq++, fn });
+    return seq;
+  };
+
+  function runUntil(limit: number): void {
+    for (;;) {
+      const due = queue
+        .filter(t => t.at <= limit)
+        .sort((a, b) => a.at - b.at || a.seq - b.seq)[0];
+      if (!due) break;
+      queue = queue.filter(t => t !== due);
+      now = Math.max(now, due.at);
+      due.fn();
+    }
+  }
+
+  return {
+    get now() {
+      return now;
+    },
+    get pending() {
+      return queue.length;
+    },
+    advance(ms) {
+      const target = now + ms;
+      runUntil(target);
+      now = target;
+    },
+    flush() {
+      runUntil(Infinity);
+    },
+    restore() {
+      timers.setTimeout = original;
+      queue = [];
+    },
+  };
+}
@@ -1,10 +1,12 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/testing.ts', 'src/server.tsx', 'src/router.tsx', 'src/dom.ts'],
   format: ['esm', 'cjs'],
   dts: true,
   clean: true,
   sourcemap: true,
-  external: ['react', 'mobx', 'mobx-react-lite'],
+  // Shared chunks keep one Component class / behavior marker across entry points
+  splitting: true,
+  external: ['react', 'react-dom', 'mobx', 'mobx-react-lite'],
 });
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'],
+    // DOM tests opt in with a `@vitest-environment jsdom` comment
+    environment: 'node',
+  },
+});